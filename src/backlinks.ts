@@ -0,0 +1,211 @@
+import { MDFileInfo } from './file-info.js';
+import { LinkResolver, ObsidianLink, tokenizeLinks } from './link-resolver.js';
+import { escapeHtml } from './util.js';
+
+/**
+ * A note that links to, or mentions, another note, with the sentence it does so in.
+ */
+export interface Backlink {
+  source: MDFileInfo;
+  snippets: string[];
+}
+
+export interface NoteBacklinks {
+  linked: Backlink[];
+  unlinked: Backlink[];
+}
+
+// The managed section is replaced on every import, so anything between these markers is overwritten
+export const BACKLINKS_START = '<!-- lava-flow-backlinks -->';
+export const BACKLINKS_END = '<!-- /lava-flow-backlinks -->';
+
+const MAX_SNIPPET_LENGTH = 160;
+// Shorter names match too many ordinary words to be worth listing as mentions
+const MIN_MENTION_LENGTH = 3;
+
+// The section itself, found by its class or attribute when the markers around it were lost, e.g. by an HTML editor
+const BACKLINKS_SECTION_PATTERN =
+  /(?:<!-- lava-flow-backlinks -->\s*)?<section\b[^>]*(?:\bclass="[^"]*\blava-flow-backlinks\b[^"]*"|\bdata-lava-flow-backlinks\b)[^>]*>[\s\S]*?<\/section>(?:\s*<!-- \/lava-flow-backlinks -->)?/g;
+
+// Earlier versions appended "#References" and a list of links on every import
+const LEGACY_REFERENCES = /(?:\r?\n#References(?:\r?\n- [^\r\n]*)*)+\s*$/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function getDisplayText(link: ObsidianLink): string {
+  if (link.alias !== null && link.alias !== '') return link.alias;
+  return link.fragment !== null ? `${link.target} > ${link.fragment}` : link.target;
+}
+
+/**
+ * The sentence of a line that contains the given text, shortened around it if it is too long.
+ */
+function getSentence(line: string, text: string): string {
+  const sentences = line.split(/(?<=[.!?])\s+/);
+  let sentence = sentences.find((s) => s.includes(text)) ?? line;
+  if (sentence.length > MAX_SNIPPET_LENGTH) {
+    const index = sentence.indexOf(text);
+    const start = Math.max(0, Math.min(index - MAX_SNIPPET_LENGTH / 2, sentence.length - MAX_SNIPPET_LENGTH));
+    sentence = `${start > 0 ? '…' : ''}${sentence.slice(start, start + MAX_SNIPPET_LENGTH).trim()}…`;
+  }
+  return sentence;
+}
+
+/**
+ * Removes the markdown that would look out of place in a one-line snippet: list markers, quotes, headings, emphasis
+ * and the targets of markdown links.
+ */
+function cleanLine(line: string): string {
+  return line
+    .replace(/^\s*(?:[-*+]|\d+\.|#+)\s+/, '')
+    .replace(/^(?:\s*>)+\s*/, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|==|~~)(\S(?:.*?\S)?)\1/g, '$2')
+    .trim();
+}
+
+/**
+ * Builds the snippet for a link or mention: the sentence around it as plain text, with every wikilink shown as its
+ * display text. The first link that isTarget accepts, or else the first match of the mention pattern, is in bold.
+ */
+function renderSnippet(line: string, isTarget: (link: ObsidianLink) => boolean, mention: RegExp | null = null): string {
+  // Placeholders for the bold tags, which have to survive the HTML escaping
+  const markStart = '\u0000';
+  const markEnd = '\u0001';
+  let marked = false;
+  let text = line.replace(/!?\[\[[^\]]+?\]\]/g, (match: string) => {
+    const link = tokenizeLinks(match)[0];
+    const display = getDisplayText(link);
+    if (marked || !isTarget(link)) return display;
+    marked = true;
+    return `${markStart}${display}${markEnd}`;
+  });
+  if (!marked && mention !== null) text = text.replace(mention, (match) => `${markStart}${match}${markEnd}`);
+
+  const sentence = getSentence(cleanLine(text), markStart);
+  // A very long name can be cut off by the shortening
+  const closed = sentence.includes(markEnd) ? sentence : `${sentence}${markEnd}`;
+  return escapeHtml(closed).replace(markStart, '<strong>').replace(markEnd, '</strong>');
+}
+
+/**
+ * Works out which notes link to each note from the links in their source, the same way they are resolved on the page,
+ * rather than from the links after they were written to Foundry. Embeds count as links. With unlinkedMentions, notes
+ * that name a note (by file name, title or alias) without linking to it are listed too. A note whose links cannot be
+ * read is passed to onError, and the other notes are still searched.
+ */
+export function findBacklinks(
+  files: MDFileInfo[],
+  resolver: LinkResolver,
+  unlinkedMentions: boolean,
+  onError: (file: MDFileInfo, error: any) => void,
+): Map<MDFileInfo, NoteBacklinks> {
+  const backlinks = new Map<MDFileInfo, NoteBacklinks>();
+  files.forEach((file) => backlinks.set(file, { linked: [], unlinked: [] }));
+  const add = (list: Backlink[], source: MDFileInfo, snippet: string): void => {
+    const backlink = list.find((b) => b.source === source);
+    if (backlink === undefined) list.push({ source, snippets: [snippet] });
+    else if (!backlink.snippets.includes(snippet)) backlink.snippets.push(snippet);
+  };
+
+  const linkedFrom = new Map<MDFileInfo, Set<MDFileInfo>>();
+  files.forEach((source) => {
+    try {
+      (source.body ?? '').split(/\r?\n/).forEach((line) => {
+        tokenizeLinks(line).forEach((link) => {
+          const target = resolver.resolve(link, source);
+          if (!(target instanceof MDFileInfo) || target === source) return;
+          const entry = backlinks.get(target);
+          if (entry === undefined) return;
+          linkedFrom.set(target, (linkedFrom.get(target) ?? new Set()).add(source));
+          add(
+            entry.linked,
+            source,
+            renderSnippet(line, (l) => resolver.resolve(l, source) === target),
+          );
+        });
+      });
+    } catch (e: any) {
+      onError(source, e);
+    }
+  });
+
+  if (unlinkedMentions) {
+    const patterns = new Map<MDFileInfo, RegExp>();
+    files.forEach((file) => {
+      const names = [...new Set([file.fileNameNoExt, file.title, ...file.aliases])].filter(
+        (name) => name.trim().length >= MIN_MENTION_LENGTH,
+      );
+      if (names.length > 0)
+        patterns.set(file, new RegExp(`(?<![\\w])(?:${names.map(escapeRegExp).join('|')})(?![\\w])`, 'i'));
+    });
+    files.forEach((source) => {
+      try {
+        (source.body ?? '').split(/\r?\n/).forEach((line) => {
+          // Mentions inside links are not mentions
+          const plain = line.replace(/!?\[\[[^\]]+?\]\]|!?\[[^\]]*\]\([^)]*\)/g, ' ');
+          patterns.forEach((pattern, target) => {
+            if (target === source || linkedFrom.get(target)?.has(source) === true || !pattern.test(plain)) return;
+            add(
+              (backlinks.get(target) as NoteBacklinks).unlinked,
+              source,
+              renderSnippet(plain, () => false, pattern),
+            );
+          });
+        });
+      } catch (e: any) {
+        onError(source, e);
+      }
+    });
+  }
+
+  backlinks.forEach(({ linked, unlinked }) => {
+    linked.sort((a, b) => a.source.title.localeCompare(b.source.title));
+    unlinked.sort((a, b) => a.source.title.localeCompare(b.source.title));
+  });
+  return backlinks;
+}
+
+function renderList(heading: string, backlinks: Backlink[]): string[] {
+  if (backlinks.length === 0) return [];
+  return [
+    `<h2>${heading}</h2>`,
+    '<ul>',
+    ...backlinks.map((backlink) => {
+      const snippets = backlink.snippets.map((s) => `<li class="lava-flow-backlink-snippet">${s}</li>`).join('');
+      return `<li>${backlink.source.getLink() ?? escapeHtml(backlink.source.title)}<ul>${snippets}</ul></li>`;
+    }),
+    '</ul>',
+  ];
+}
+
+/**
+ * The managed section for a note, written as HTML so it looks the same on markdown and HTML pages. Empty when
+ * nothing links to the note.
+ */
+export function renderBacklinks({ linked, unlinked }: NoteBacklinks): string {
+  if (linked.length === 0 && unlinked.length === 0) return '';
+  return [
+    BACKLINKS_START,
+    '<section class="lava-flow-backlinks" data-lava-flow-backlinks>',
+    ...renderList('Linked References', linked),
+    ...renderList('Unlinked Mentions', unlinked),
+    '</section>',
+    BACKLINKS_END,
+  ].join('\n');
+}
+
+/**
+ * Replaces the managed section at the end of a page with a new one, or removes it when the new one is empty. Every
+ * copy of the section is removed, with or without its markers, as are the "#References" lists that earlier versions
+ * kept appending.
+ */
+export function replaceBacklinks(text: string, section: string): string {
+  const start = text.indexOf(BACKLINKS_START);
+  const end = text.indexOf(BACKLINKS_END, start);
+  let content = start > -1 && end > -1 ? text.slice(0, start) + text.slice(end + BACKLINKS_END.length) : text;
+  content = content.replace(BACKLINKS_SECTION_PATTERN, '').replace(LEGACY_REFERENCES, '').trimEnd();
+  return section !== '' ? `${content}\n\n${section}\n` : content;
+}
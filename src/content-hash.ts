@@ -0,0 +1,48 @@
+/**
+ * Content hashing used to tell whether a vault file changed since it was last imported.
+ * SubtleCrypto is only available in secure contexts, and many Foundry servers are reached over plain HTTP, so this
+ * uses a small non-cryptographic hash instead. It only needs to detect edits, not resist tampering.
+ */
+
+/**
+ * 53-bit cyrb53 hash over a sequence of code units.
+ */
+function cyrb53(length: number, charAt: (i: number) => number, seed: number = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < length; i++) {
+    const ch = charAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * Hashes a string. Two seeds are combined, along with the length, to make accidental collisions very unlikely.
+ *
+ * @param text - The text to hash
+ * @returns A hex string that is identical for identical text
+ *
+ * @example
+ * hashText('Apples are delicious.')
+ */
+export function hashText(text: string): string {
+  const charAt = (i: number): number => text.charCodeAt(i);
+  return `${cyrb53(text.length, charAt).toString(16)}${cyrb53(text.length, charAt, 1).toString(16)}-${text.length}`;
+}
+
+/**
+ * Hashes the bytes of a file, such as an image, the same way as hashText.
+ *
+ * @param bytes - The file content
+ * @returns A hex string that is identical for identical content
+ */
+export function hashBytes(bytes: Uint8Array): string {
+  const byteAt = (i: number): number => bytes[i];
+  return `${cyrb53(bytes.length, byteAt).toString(16)}${cyrb53(bytes.length, byteAt, 1).toString(16)}-${bytes.length}`;
+}
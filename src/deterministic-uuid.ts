@@ -110,3 +110,33 @@ export function generatePageUUID(filePath: string, pageName: string = ''): strin
   const path = pageName ? `${filePath}#${pageName}` : filePath;
   return generateDeterministicUUID(path, 'page');
 }
+
+/**
+ * Generates a unique deterministic 16-character ID for an index journal that Lava Flow builds itself rather than
+ * importing from a note, such as the tag journal.
+ *
+ * @param journalName - The name of the index journal
+ * @param rootFolderName - The top journal folder the import goes into, if any
+ * @returns A deterministic 16-character alphanumeric ID for the journal entry
+ *
+ * @example
+ * generateIndexJournalUUID('Tags', 'My Campaign')
+ */
+export function generateIndexJournalUUID(journalName: string, rootFolderName: string | null = null): string {
+  return generateDeterministicUUID(`${rootFolderName ?? ''}/${journalName}`, 'index');
+}
+
+/**
+ * Generates a unique deterministic 16-character ID for a journal that notes are gathered into by name from their
+ * frontmatter, rather than by the folder they are in.
+ *
+ * @param journalName - The journal name given in the frontmatter
+ * @param rootFolderName - The top journal folder the import goes into, if any
+ * @returns A deterministic 16-character alphanumeric ID for the journal entry
+ *
+ * @example
+ * generateGroupJournalUUID('Chapter 1', 'My Campaign')
+ */
+export function generateGroupJournalUUID(journalName: string, rootFolderName: string | null = null): string {
+  return generateDeterministicUUID(`${rootFolderName ?? ''}/${journalName}`, 'group');
+}
@@ -1,31 +1,66 @@
+import { getFragmentAnchor } from './markdown-transforms.js';
+import { Ownership } from './ownership.js';
+
+/**
+ * A page that a note is imported as. A note has a single section unless it is split at its headings.
+ */
+export interface NoteSection {
+  // Identifies the page across imports, so it keeps its ID when its title changes
+  key: string;
+  // The title of the page
+  name: string;
+  content: string;
+  // The heading the page was split at, which links to it should open the page for rather than scroll to
+  headingAnchor: string | null;
+  // Heading and block anchors on the page
+  anchors: string[];
+  // @ts-expect-error
+  page: JournalEntryPage | null;
+}
+
+/**
+ * A file picked from the vault, from the folder picker or unpacked from an archive.
+ */
+export interface VaultFile {
+  file: File;
+  // Relative to the folder the vault is in, so it starts with the vault's own folder name
+  path: string;
+  // Where an attachment already is on the server, for a vault read from the server
+  serverPath?: string;
+}
+
 export abstract class FileInfo {
   originalFile: File;
+  relativePath: string;
   keys: string[] = [];
   directories: string[] = [];
   // @ts-expect-error
   journalPage: JournalEntryPage | null = null;
   extension: string | null = null;
   fileNameNoExt: string;
+  selected: boolean = true;
 
-  abstract getLinkRegex(): RegExp[];
-  abstract getLink(alias?: string | null): string | null;
+  abstract getLink(alias?: string | null, fragment?: string | null): string | null;
 
-  constructor(file: File) {
+  constructor(file: File, relativePath: string) {
     this.originalFile = file;
-    const nameParts = file.name.split('.');
-    this.fileNameNoExt = nameParts[0];
+    this.relativePath = relativePath;
+    // Only the last dot starts the extension, so "Session 1.5.md" keeps its full name
+    const extensionIndex = file.name.lastIndexOf('.');
+    this.fileNameNoExt = extensionIndex > 0 ? file.name.slice(0, extensionIndex) : file.name;
   }
 
-  static get(file: File): FileInfo {
-    const nameParts = file.webkitRelativePath.split('.');
+  static get({ file, path, serverPath }: VaultFile): FileInfo {
+    const nameParts = path.split('.');
     const extension = nameParts[nameParts.length - 1];
-    const fileInfo = extension === 'md' ? new MDFileInfo(file) : new OtherFileInfo(file);
+    const fileInfo = extension === 'md' ? new MDFileInfo(file, path) : new OtherFileInfo(file, path);
     fileInfo.extension = extension;
+    if (fileInfo instanceof OtherFileInfo) fileInfo.serverPath = serverPath ?? null;
     return fileInfo;
   }
 
   createKeys(fileName: string): void {
-    this.directories = this.originalFile.webkitRelativePath.split('/');
+    this.directories = this.relativePath.split('/');
     this.directories.pop(); // Remove file name
     for (let i = 0; i < this.directories.length; i++) {
       const prefixes = this.directories.slice(i);
@@ -35,8 +70,14 @@ export abstract class FileInfo {
     this.keys.push(fileName);
   }
 
+  getVaultPath(): string {
+    // Drop the vault root folder name so the same file has the same path regardless of what the vault is called
+    const pathParts = this.relativePath.split('/');
+    return pathParts.length > 1 ? pathParts.slice(1).join('/') : this.relativePath;
+  }
+
   isHidden(): boolean {
-    return this.originalFile.webkitRelativePath.split('/').filter((s) => s[0] === '.').length > 0;
+    return this.relativePath.split('/').filter((s) => s[0] === '.').length > 0;
   }
 
   isCanvas(): boolean {
@@ -46,40 +87,78 @@ export abstract class FileInfo {
 
 export class MDFileInfo extends FileInfo {
   links: string[] = [];
+  contentHash: string | null = null;
+  // False when the page from the last import is still current and can be left alone
+  changed: boolean = true;
+  pageCreated: boolean = false;
+  // Set once the note has been parsed, before anything is imported
+  body: string | null = null;
+  frontmatter: Record<string, any> = {};
+  tags: string[] = [];
+  aliases: string[] = [];
+  // The heading level the note is split into pages at, or 0 for a single page
+  splitLevel: number = 0;
+  sections: NoteSection[] = [];
+  // Who can see the note, from its frontmatter. Null if the frontmatter does not say.
+  ownership: Ownership | null = null;
+  // The page title, from the frontmatter title if it has one
+  title: string;
+  // Where the note goes among the pages of its journal, from its frontmatter. Null to leave it to Foundry.
+  sort: number | null = null;
+  // The journal named in the frontmatter to gather the note into, and that journal once it has been found or created
+  journalName: string | null = null;
+  targetJournal: JournalEntry | null = null;
 
-  constructor(file: File) {
-    super(file);
+  constructor(file: File, relativePath: string) {
+    super(file, relativePath);
+    this.title = this.fileNameNoExt;
     this.createKeys(this.fileNameNoExt);
   }
 
-  getLinkRegex(): RegExp[] {
-    return this.keys.map((k) => new RegExp(`!?\\[\\[${k}(#[^\\]\\|]*)?(\\s*\\|[^\\]]*)?\\]\\]`, 'gi'));
+  getLink(alias: string | null = null, fragment: string | null = null): string | null {
+    if (this.journalPage === null) return null;
+    const hasAlias = alias !== null && alias.length > 0;
+    if (fragment === null && !hasAlias) return this.journalPage.link;
+
+    // In a note split into pages, the heading or block is on whichever page it ended up on
+    let anchor = fragment !== null ? getFragmentAnchor(fragment) : null;
+    let page = this.journalPage;
+    const section = anchor !== null ? this.getSection(anchor) : undefined;
+    if (section?.page !== null && section?.page !== undefined) {
+      page = section.page;
+      if (section.headingAnchor === anchor) anchor = null;
+    }
+
+    // Obsidian shows a heading link as "Note > Heading" unless it has an alias
+    const heading = fragment?.split('#').pop()?.trim() ?? '';
+    let label = this.journalPage.name as string;
+    if (hasAlias) label = alias;
+    else if (heading !== '' && !heading.startsWith('^')) label = `${label} > ${heading}`;
+    return `@UUID[${page.uuid as string}${anchor !== null ? `#${anchor}` : ''}]{${label}}`;
   }
 
-  getLink(alias: string | null = null): string | null {
-    if (alias === null || alias.length < 1) return this.journalPage?.link ?? null;
-    else
-      return `@UUID[JournalEntry.${this.journalPage?.parent?.id}.JournalEntryPage.${
-        this.journalPage?.id ?? ''
-      }]{${alias}}`;
+  getSection(anchor: string): NoteSection | undefined {
+    if (this.sections.length < 2) return undefined;
+    return (
+      this.sections.find((s) => s.headingAnchor === anchor) ?? this.sections.find((s) => s.anchors.includes(anchor))
+    );
   }
 }
 
 export class OtherFileInfo extends FileInfo {
   uploadPath: string | null = null;
+  // Set when the file is already on the server and is linked there rather than uploaded
+  serverPath: string | null = null;
+  // Worked out the first time the file is compared with the media library
+  contentHash: string | null = null;
 
-  constructor(file: File) {
-    super(file);
+  constructor(file: File, relativePath: string) {
+    super(file, relativePath);
     this.createKeys(file.name);
   }
 
-  getLinkRegex(): RegExp[] {
-    const obsidianPatterns = this.keys.map((k) => new RegExp(`!\\[\\[${k}(\\s*\\|[^\\]]*)?\\]\\]`, 'gi'));
-    const altTextPatterns = this.keys.map((k) => new RegExp(`!\\[[^\\]]+\\]\\(${k}\\)`, 'gi'));
-    return obsidianPatterns.concat(altTextPatterns);
-  }
-
   getLink(): string | null {
-    return `![${this.originalFile.name}](${encodeURI(this.uploadPath ?? '')})`;
+    if (this.uploadPath === null) return null;
+    return `![${this.originalFile.name}](${encodeURI(this.uploadPath)})`;
   }
 }
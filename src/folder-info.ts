@@ -1,9 +1,11 @@
-import { FileInfo } from './file-info';
+import { FileInfo, MDFileInfo } from './file-info.js';
 
 export class FolderInfo {
   name: string;
   files: FileInfo[] = [];
   childFolders: FolderInfo[] = [];
+  foundryFolder: Folder | null = null;
+  journal: JournalEntry | null = null;
 
   constructor(name: string) {
     this.name = name;
@@ -15,4 +17,30 @@ export class FolderInfo {
     this.childFolders.forEach((folder) => folder.getFilesRecursive().forEach((f) => allFiles.push(f)));
     return allFiles;
   }
+
+  /**
+   * Takes a file out of this folder or whichever folder below it holds it.
+   */
+  removeFile(file: FileInfo): boolean {
+    const index = this.files.indexOf(file);
+    if (index > -1) {
+      this.files.splice(index, 1);
+      return true;
+    }
+    return this.childFolders.some((folder) => folder.removeFile(file));
+  }
+
+  getDocumentIdsRecursive(): string[] {
+    const ids: string[] = [];
+    if (this.foundryFolder !== null) ids.push(this.foundryFolder.id as string);
+    if (this.journal !== null) ids.push(this.journal.id as string);
+    this.files.forEach((f) => {
+      if (f.journalPage === null) return;
+      ids.push(f.journalPage.id, f.journalPage.parent?.id);
+      // The other pages of a note split at its headings
+      if (f instanceof MDFileInfo) f.sections.filter((s) => s.page !== null).forEach((s) => ids.push(s.page.id));
+    });
+    this.childFolders.forEach((folder) => folder.getDocumentIdsRecursive().forEach((id) => ids.push(id)));
+    return ids;
+  }
 }
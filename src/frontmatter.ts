@@ -0,0 +1,578 @@
+/**
+ * YAML frontmatter, as written by Obsidian and its plugins. This covers the parts of YAML that frontmatter uses: nested
+ * maps, block and flow lists, quoted and multi-line strings, numbers, booleans and nulls. Dates are left as strings,
+ * the way Obsidian shows them, so they survive being stored in document flags.
+ */
+
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#\-?:,[\]{}][^:]*?|-[^\s:][^:]*?)[ \t]*:(?:[ \t]+(.*))?$/;
+const SEQUENCE_ITEM_PATTERN = /^-(?:[ \t]+|$)/;
+
+export class FrontmatterError extends Error {
+  // Line in the note, counting the opening --- as line 1
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'FrontmatterError';
+    this.line = line;
+  }
+}
+
+/**
+ * Splits a note into its frontmatter and body. The frontmatter is null if the note does not start with a --- block.
+ */
+export function splitFrontmatter(text: string): { yaml: string | null; body: string } {
+  const match = text.match(FRONTMATTER_PATTERN);
+  if (match === null) return { yaml: null, body: text };
+  return { yaml: match[1] ?? '', body: text.slice(match[0].length) };
+}
+
+/**
+ * Parses frontmatter into an object of its properties.
+ *
+ * @param yaml - The text between the --- lines
+ * @returns The properties, or an empty object for empty frontmatter
+ * @throws FrontmatterError if the YAML is malformed or is not a map of properties
+ *
+ * @example
+ * parseFrontmatter('tags: [npc, villain]\npublic: true');
+ */
+export function parseFrontmatter(yaml: string): Record<string, unknown> {
+  return new FrontmatterParser(yaml).parse();
+}
+
+/**
+ * Looks up a property regardless of how its name is capitalized, since Obsidian treats `Public` and `public` alike.
+ */
+export function getFrontmatterValue(frontmatter: Record<string, unknown>, key: string): unknown {
+  if (key in frontmatter) return frontmatter[key];
+  const match = Object.keys(frontmatter).find((k) => k.toLowerCase() === key.toLowerCase());
+  return match !== undefined ? frontmatter[match] : undefined;
+}
+
+function isMap(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Removes a trailing comment. A # only starts a comment at the start of the value or after whitespace, and never
+ * inside quotes.
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote !== null) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      if (i === 0 || /[\s[{,:]/.test(text[i - 1])) quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Resolves a plain (unquoted) scalar to the type YAML gives it.
+ */
+function resolveScalar(text: string): unknown {
+  const value = text.trim();
+  if (/^(?:~|null|Null|NULL)?$/.test(value)) return null;
+  if (/^(?:true|True|TRUE)$/.test(value)) return true;
+  if (/^(?:false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?\d+$/.test(value)) return parseInt(value, 10);
+  if (/^0x[0-9a-fA-F]+$/.test(value)) return parseInt(value.slice(2), 16);
+  if (/^0o[0-7]+$/.test(value)) return parseInt(value.slice(2), 8);
+  if (/^[-+]?(?:\.\d+|\d+(?:\.\d*)?)(?:[eE][-+]?\d+)?$/.test(value)) return parseFloat(value);
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(value)) return value.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.(?:nan|NaN|NAN)$/.test(value)) return NaN;
+  return value;
+}
+
+function unescapeDoubleQuoted(text: string): string {
+  const escapes: Record<string, string> = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    '0': '\0',
+    '"': '"',
+    '\\': '\\',
+    '/': '/',
+    ' ': ' ',
+  };
+  return text.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (match, code: string) => {
+    if (code.length > 1) return String.fromCodePoint(parseInt(code.slice(1), 16));
+    return escapes[code] ?? match;
+  });
+}
+
+/**
+ * Joins the lines of a multi-line flow scalar: line breaks become spaces and blank lines become line breaks.
+ */
+function foldLines(lines: string[]): string {
+  return lines
+    .map((line) => line.trim())
+    .reduce((text, line, i) => {
+      if (i === 0) return line;
+      if (line === '') return `${text}\n`;
+      return text.endsWith('\n') ? `${text}${line}` : `${text} ${line}`;
+    }, '');
+}
+
+class FrontmatterParser {
+  private readonly lines: string[];
+  private index = 0;
+
+  constructor(yaml: string) {
+    this.lines = yaml.split(/\r?\n/);
+  }
+
+  parse(): Record<string, unknown> {
+    this.skipBlankLines();
+    if (this.index >= this.lines.length) return {};
+    const value = this.parseBlock(indentOf(this.lines[this.index]));
+    this.skipBlankLines();
+    if (this.index < this.lines.length) this.fail('Unexpected indentation');
+    if (!isMap(value)) this.fail('Frontmatter must be a list of properties', 0);
+    return value;
+  }
+
+  private fail(message: string, index: number = this.index): never {
+    // The opening --- is the first line of the note
+    throw new FrontmatterError(message, index + 2);
+  }
+
+  private isBlank(line: string): boolean {
+    const trimmed = line.trim();
+    return trimmed === '' || trimmed.startsWith('#');
+  }
+
+  private skipBlankLines(): void {
+    while (this.index < this.lines.length && this.isBlank(this.lines[this.index])) this.index++;
+  }
+
+  private currentLine(): string | null {
+    this.skipBlankLines();
+    return this.index < this.lines.length ? this.lines[this.index] : null;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.lines[this.index];
+    if (/^ *\t/.test(line)) this.fail('Tabs cannot be used for indentation');
+    return SEQUENCE_ITEM_PATTERN.test(line.trim()) ? this.parseSequence(indent) : this.parseMap(indent);
+  }
+
+  /**
+   * The value of a key or list item that has nothing after it on its own line. It is either a block indented below
+   * it, or a list at the same indentation as the key.
+   */
+  private parseNested(parentIndent: number, isMapValue: boolean): unknown {
+    const line = this.currentLine();
+    if (line === null) return null;
+    const indent = indentOf(line);
+    if (indent > parentIndent) return this.parseBlock(indent);
+    if (isMapValue && indent === parentIndent && SEQUENCE_ITEM_PATTERN.test(line.trim()))
+      return this.parseSequence(indent);
+    return null;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    let line = this.currentLine();
+    while (line !== null && indentOf(line) === indent && SEQUENCE_ITEM_PATTERN.test(line.trim())) {
+      const rest = line.trim().replace(SEQUENCE_ITEM_PATTERN, '');
+      const restIndent = line.trimEnd().length - rest.length;
+      if (stripComment(rest) === '') {
+        this.index++;
+        items.push(this.parseNested(indent, false));
+      } else if (KEY_PATTERN.test(stripComment(rest)) || SEQUENCE_ITEM_PATTERN.test(rest)) {
+        // A map or list that starts on the same line as the dash, e.g. "- name: Bob"
+        this.lines[this.index] = `${' '.repeat(restIndent)}${rest}`;
+        items.push(this.parseBlock(restIndent));
+      } else {
+        items.push(this.parseValue(rest, indent));
+      }
+      line = this.currentLine();
+    }
+    if (line !== null && indentOf(line) > indent) this.fail('Unexpected indentation');
+    return items;
+  }
+
+  private parseMap(indent: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    let line = this.currentLine();
+    while (line !== null && indentOf(line) === indent) {
+      const content = stripComment(line.trim());
+      if (SEQUENCE_ITEM_PATTERN.test(content)) this.fail('Expected a property, found a list item');
+      const match = content.match(KEY_PATTERN);
+      if (match === null) this.fail('Expected "name: value"');
+
+      const key = this.parseKey(match[1]);
+      if (key in map) this.fail(`"${key}" is defined more than once`);
+      if (match[2] === undefined || match[2].trim() === '') {
+        this.index++;
+        map[key] = this.parseNested(indent, true);
+      } else {
+        // The value is read from the line as written, so that comments and quotes are handled in one place
+        map[key] = this.parseValue(
+          line
+            .trim()
+            .slice(match[1].length)
+            .replace(/^[ \t]*:/, ''),
+          indent,
+        );
+      }
+      line = this.currentLine();
+    }
+    if (line !== null && indentOf(line) > indent) this.fail('Unexpected indentation');
+    return map;
+  }
+
+  private parseKey(key: string): string {
+    if (key.startsWith('"')) return unescapeDoubleQuoted(key.slice(1, -1));
+    if (key.startsWith("'")) return key.slice(1, -1).replace(/''/g, "'");
+    return key.trim();
+  }
+
+  /**
+   * Parses the value that follows a key or a list item dash on the current line, along with any lines it continues
+   * onto, and moves past them.
+   */
+  private parseValue(text: string, indent: number): unknown {
+    const value = text.trim();
+    if (/^[&*!]/.test(value)) this.fail('Anchors, aliases and tags are not supported');
+    if (/^[|>]/.test(value)) return this.parseBlockScalar(value, indent);
+    if (value.startsWith('"') || value.startsWith("'")) return this.parseQuoted(value);
+    if (value.startsWith('[') || value.startsWith('{')) return this.parseFlow(value, indent);
+
+    const lines = [stripComment(value)];
+    this.index++;
+    // A plain value carries on over more-indented lines that are not properties of their own
+    while (this.index < this.lines.length) {
+      const next = this.lines[this.index];
+      if (next.trim() !== '' && (indentOf(next) <= indent || next.trim().startsWith('#'))) break;
+      if (KEY_PATTERN.test(stripComment(next.trim()))) this.fail('Unexpected indentation');
+      lines.push(stripComment(next));
+      this.index++;
+    }
+    while (lines.length > 1 && lines[lines.length - 1].trim() === '') lines.pop();
+    return lines.length > 1 ? foldLines(lines) : resolveScalar(lines[0]);
+  }
+
+  /**
+   * Literal (|) and folded (>) multi-line strings, with optional chomping (+ or -) and indentation indicators.
+   */
+  private parseBlockScalar(header: string, indent: number): string {
+    const match = stripComment(header).match(/^([|>])([+-]?)([1-9]?)([+-]?)$/);
+    if (match === null) this.fail('Invalid block scalar header');
+    const folded = match[1] === '>';
+    const chomping = match[2] !== '' ? match[2] : match[4];
+    this.index++;
+
+    const lines: string[] = [];
+    let contentIndent = match[3] !== '' ? indent + Number(match[3]) : -1;
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.trim() === '') {
+        lines.push('');
+        this.index++;
+        continue;
+      }
+      if (contentIndent < 0) contentIndent = indentOf(line);
+      if (indentOf(line) < contentIndent || contentIndent <= indent) break;
+      lines.push(line.slice(contentIndent));
+      this.index++;
+    }
+
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailing++;
+    }
+    let text = '';
+    if (folded) {
+      // Line breaks become spaces, except around blank and more-indented lines
+      lines.forEach((line, i) => {
+        const previous = lines[i - 1];
+        if (i === 0) text = line;
+        else if (line === '') text += '\n';
+        else if (previous === '') text += line;
+        else if (/^\s/.test(line) || /^\s/.test(previous)) text += `\n${line}`;
+        else text += ` ${line}`;
+      });
+    } else {
+      text = lines.join('\n');
+    }
+
+    if (chomping === '-' || lines.length === 0) return text;
+    return chomping === '+' ? text + '\n'.repeat(trailing + 1) : `${text}\n`;
+  }
+
+  private parseQuoted(text: string): string {
+    const quote = text[0];
+    const closing = quote === '"' ? /^"((?:[^"\\]|\\.)*)"/ : /^'((?:[^']|'')*)'/;
+    let value = text;
+    const start = this.index;
+    this.index++;
+    // A quoted string can run over several lines
+    while (value.match(closing) === null && this.index < this.lines.length) {
+      value = `${value}\n${this.lines[this.index]}`;
+      this.index++;
+    }
+
+    const match = value.match(closing);
+    if (match === null) this.fail('Unterminated quoted string', start);
+    if (stripComment(value.slice(match[0].length)).trim() !== '') this.fail('Unexpected text after a quoted string');
+    const inner = match[1].includes('\n') ? foldLines(match[1].split('\n')) : match[1];
+    return quote === '"' ? unescapeDoubleQuoted(inner) : inner.replace(/''/g, "'");
+  }
+
+  /**
+   * Flow lists and maps, e.g. [a, b] or {name: Bob}, which can run over several lines.
+   */
+  private parseFlow(text: string, indent: number): unknown {
+    const start = this.index;
+    let source = stripComment(text);
+    this.index++;
+    let reader = new FlowReader(source);
+    while (!reader.isBalanced() && this.index < this.lines.length && indentOf(this.lines[this.index]) > indent) {
+      source = `${source} ${stripComment(this.lines[this.index].trim())}`;
+      this.index++;
+      reader = new FlowReader(source);
+    }
+    try {
+      const value = reader.read();
+      if (!reader.atEnd()) this.fail('Unexpected text after a list or map', start);
+      return value;
+    } catch (e) {
+      if (e instanceof FrontmatterError) throw e;
+      this.fail((e as Error).message, start);
+    }
+  }
+}
+
+/**
+ * Reads flow-style YAML ([a, b] and {key: value}) from a single string.
+ */
+class FlowReader {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  isBalanced(): boolean {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < this.text.length; i++) {
+      const ch = this.text[i];
+      if (quote !== null) {
+        if (ch === '\\' && quote === '"') i++;
+        else if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") quote = ch;
+      else if (ch === '[' || ch === '{') depth++;
+      else if (ch === ']' || ch === '}') depth--;
+    }
+    return depth <= 0 && quote === null;
+  }
+
+  atEnd(): boolean {
+    this.skipSpace();
+    return this.position >= this.text.length;
+  }
+
+  read(): unknown {
+    this.skipSpace();
+    const ch = this.text[this.position];
+    if (ch === '[') return this.readSequence();
+    if (ch === '{') return this.readMap();
+    if (ch === '"' || ch === "'") return this.readQuoted();
+    return resolveScalar(this.readPlain());
+  }
+
+  private skipSpace(): void {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) this.position++;
+  }
+
+  private expect(ch: string): void {
+    this.skipSpace();
+    if (this.text[this.position] !== ch) throw new Error(`Expected "${ch}" in a list or map`);
+    this.position++;
+  }
+
+  private readSequence(): unknown[] {
+    const items: unknown[] = [];
+    this.expect('[');
+    this.skipSpace();
+    while (this.text[this.position] !== ']') {
+      if (this.position >= this.text.length) throw new Error('Unterminated list');
+      items.push(this.read());
+      this.skipSpace();
+      if (this.text[this.position] === ',') {
+        this.position++;
+        this.skipSpace();
+      } else if (this.position >= this.text.length) {
+        throw new Error('Unterminated list');
+      } else if (this.text[this.position] !== ']') throw new Error('Expected "," or "]" in a list');
+    }
+    this.position++;
+    return items;
+  }
+
+  private readMap(): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    this.expect('{');
+    this.skipSpace();
+    while (this.text[this.position] !== '}') {
+      if (this.position >= this.text.length) throw new Error('Unterminated map');
+      const key = String(
+        this.text[this.position] === '"' || this.text[this.position] === "'" ? this.readQuoted() : this.readPlain(true),
+      );
+      this.skipSpace();
+      let value: unknown = null;
+      if (this.text[this.position] === ':') {
+        this.position++;
+        value = this.read();
+      }
+      map[key] = value;
+      this.skipSpace();
+      if (this.text[this.position] === ',') {
+        this.position++;
+        this.skipSpace();
+      } else if (this.position >= this.text.length) {
+        throw new Error('Unterminated map');
+      } else if (this.text[this.position] !== '}') throw new Error('Expected "," or "}" in a map');
+    }
+    this.position++;
+    return map;
+  }
+
+  private readQuoted(): string {
+    const quote = this.text[this.position];
+    const pattern = quote === '"' ? /"((?:[^"\\]|\\.)*)"/y : /'((?:[^']|'')*)'/y;
+    pattern.lastIndex = this.position;
+    const match = pattern.exec(this.text);
+    if (match === null) throw new Error('Unterminated quoted string');
+    this.position += match[0].length;
+    return quote === '"' ? unescapeDoubleQuoted(match[1]) : match[1].replace(/''/g, "'");
+  }
+
+  private readPlain(isKey: boolean = false): string {
+    const start = this.position;
+    while (this.position < this.text.length) {
+      const ch = this.text[this.position];
+      if (ch === ',' || ch === ']' || ch === '}' || ch === '[' || ch === '{') break;
+      if (ch === ':' && (isKey || /\s/.test(this.text[this.position + 1] ?? ' '))) break;
+      this.position++;
+    }
+    return this.text.slice(start, this.position).trim();
+  }
+}
+
+/**
+ * Reads a property that can be written as a list or as a single comma-separated value, such as `tags` or `aliases`.
+ * Obsidian has accepted both the singular and plural names over the years, so either can be given.
+ */
+export function getFrontmatterList(frontmatter: Record<string, unknown>, ...keys: string[]): string[] {
+  const values: string[] = [];
+  keys.forEach((key) => {
+    const value = getFrontmatterValue(frontmatter, key);
+    if (value === undefined || value === null) return;
+    const items = Array.isArray(value) ? value : String(value).split(',');
+    items
+      .filter((item) => item !== null && item !== undefined)
+      .map((item) => String(item).trim())
+      .filter((item) => item !== '' && !values.includes(item))
+      .forEach((item) => values.push(item));
+  });
+  return values;
+}
+
+/**
+ * Reads a text property, such as `title`, from the first of the keys that is set to a number or non-blank string.
+ * Returns null if none of them are.
+ */
+export function getFrontmatterText(frontmatter: Record<string, unknown>, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = getFrontmatterValue(frontmatter, key);
+    if ((typeof value === 'string' || typeof value === 'number') && String(value).trim() !== '')
+      return String(value).trim();
+  }
+  return null;
+}
+
+/**
+ * Writes a string plainly when it would be read back as the same string, and double-quoted otherwise. JSON's escapes
+ * are all valid in double-quoted YAML.
+ */
+function stringifyString(text: string): string {
+  const plain =
+    text !== '' &&
+    text === text.trim() &&
+    resolveScalar(text) === text &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(text) &&
+    !/[\n\r\t]|:\s|:$|\s#/.test(text);
+  return plain ? text : JSON.stringify(text);
+}
+
+function stringifyScalar(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return '.nan';
+    if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+    return String(value);
+  }
+  if (typeof value === 'boolean') return String(value);
+  return stringifyString(String(value));
+}
+
+function stringifyKey(key: string): string {
+  return /^[^\s"'#\-?:,[\]{}](?:[^:#]*[^\s:#])?$/.test(key) ? key : JSON.stringify(key);
+}
+
+function stringifyInline(value: unknown): string {
+  if (Array.isArray(value)) return '[]';
+  if (isMap(value)) return '{}';
+  return stringifyScalar(value);
+}
+
+/**
+ * The lines of a list or map that goes under a key or list item, or null if the value fits on the same line.
+ */
+function stringifyBlock(value: unknown): string[] | null {
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap((item) => {
+      const block = stringifyBlock(item);
+      if (block === null) return [`- ${stringifyInline(item)}`.trimEnd()];
+      // A nested list or map starts on the line of its dash, with the rest of it lined up underneath
+      return block.map((line, i) => (i === 0 ? `- ${line}` : `  ${line}`));
+    });
+  }
+  if (isMap(value) && Object.keys(value).length > 0) return stringifyMap(value);
+  return null;
+}
+
+function stringifyMap(map: Record<string, unknown>): string[] {
+  return Object.entries(map).flatMap(([key, value]) => {
+    const block = stringifyBlock(value);
+    if (block !== null) return [`${stringifyKey(key)}:`, ...block.map((line) => `  ${line}`)];
+    const inline = stringifyInline(value);
+    return [`${stringifyKey(key)}:${inline !== '' ? ` ${inline}` : ''}`];
+  });
+}
+
+/**
+ * Writes properties as the YAML of a note's frontmatter, the way Obsidian lays it out: lists one item to a line, nested
+ * maps indented, and strings only quoted when they have to be. Returns an empty string for no properties.
+ *
+ * @example
+ * stringifyFrontmatter({ tags: ['npc', 'villain'], public: true });
+ */
+export function stringifyFrontmatter(frontmatter: Record<string, unknown>): string {
+  return stringifyMap(frontmatter).join('\n');
+}
@@ -0,0 +1,107 @@
+import { LavaFlowSettings } from './lava-flow-settings.js';
+
+/**
+ * Where an import writes its folders and journals: the world's journal directory or a JournalEntry compendium pack.
+ * Journals in a pack are found, created and linked the same way as in the world, with the pack passed along to
+ * Foundry when they are created, updated or deleted.
+ */
+export class ImportDestination {
+  // The compendiumPack setting for a world pack created by the import, named by the compendiumLabel setting
+  static NEW_PACK = 'new';
+  static DEFAULT_PACK_LABEL = 'Lava Flow';
+
+  // Null for the world's journal directory
+  pack: any = null;
+  // The label of a new world pack that has not been created yet
+  pendingLabel: string | null = null;
+
+  /**
+   * Finds the pack chosen in the settings and loads its journals so they can be looked up by ID and name. A new pack
+   * is only created by create(), so a preview can be shown without writing anything.
+   */
+  static async get(settings: LavaFlowSettings): Promise<ImportDestination> {
+    const destination = new ImportDestination();
+    if (settings.compendiumPack === '') return destination;
+
+    if (settings.compendiumPack === ImportDestination.NEW_PACK) {
+      const label =
+        settings.compendiumLabel.trim() !== '' ? settings.compendiumLabel.trim() : ImportDestination.DEFAULT_PACK_LABEL;
+      destination.pack = ImportDestination.findWorldPack(label);
+      if (destination.pack === null) {
+        destination.pendingLabel = label;
+        return destination;
+      }
+    } else {
+      destination.pack = (game as Game).packs.get(settings.compendiumPack) ?? null;
+      if (destination.pack?.documentName !== 'JournalEntry')
+        throw new Error(`The compendium ${settings.compendiumPack} does not exist or does not hold journals.`);
+    }
+
+    if (destination.pack.locked === true)
+      throw new Error(`The compendium ${destination.pack.metadata.label as string} is locked. Unlock it to import.`);
+    await destination.pack.getDocuments();
+    return destination;
+  }
+
+  /**
+   * Every journal compendium the user can import into, keyed by the value of the compendiumPack setting.
+   */
+  static getChoices(): Record<string, string> {
+    const choices: Record<string, string> = { '': 'World journals' };
+    (game as Game).packs
+      .filter((pack) => pack.documentName === 'JournalEntry')
+      .forEach((pack) => {
+        choices[pack.collection] = `Compendium: ${pack.metadata.label}`;
+      });
+    choices[ImportDestination.NEW_PACK] = 'New world compendium';
+    return choices;
+  }
+
+  private static findWorldPack(label: string): any {
+    return (
+      (game as Game).packs.find(
+        (pack: any) =>
+          pack.documentName === 'JournalEntry' &&
+          pack.metadata.packageType === 'world' &&
+          pack.metadata.label === label,
+      ) ?? null
+    );
+  }
+
+  /**
+   * Creates the new world pack, if the settings asked for one and it does not exist yet.
+   */
+  async create(): Promise<void> {
+    if (this.pendingLabel === null) return;
+    this.pack = await CompendiumCollection.createCompendium({ type: 'JournalEntry', label: this.pendingLabel } as any);
+    this.pendingLabel = null;
+  }
+
+  getLabel(): string {
+    if (this.pendingLabel !== null) return `${this.pendingLabel} (new compendium)`;
+    return this.pack !== null ? `Compendium: ${this.pack.metadata.label as string}` : 'World journals';
+  }
+
+  /**
+   * The journals already in the destination. Empty for a pack that has not been created yet.
+   */
+  get journals(): Collection<JournalEntry> {
+    if (this.pendingLabel !== null) return new Collection();
+    return this.pack ?? (game as Game).journal;
+  }
+
+  /**
+   * The folders already in the destination. Empty for a pack that has not been created yet.
+   */
+  get folders(): Collection<Folder> {
+    if (this.pendingLabel !== null) return new Collection();
+    return this.pack?.folders ?? (game as Game).folders;
+  }
+
+  /**
+   * Options to pass to Foundry when creating, updating or deleting top-level documents in the destination.
+   */
+  get options(): { pack?: string } {
+    return this.pack !== null ? { pack: this.pack.collection } : {};
+  }
+}
@@ -0,0 +1,210 @@
+import LavaFlow from './lava-flow.js';
+import { FileInfo, MDFileInfo, OtherFileInfo } from './file-info.js';
+import { FolderInfo } from './folder-info.js';
+import { LavaFlowSettings } from './lava-flow-settings.js';
+import {
+  generateFolderUUID,
+  generateGroupJournalUUID,
+  generateJournalUUID,
+  generatePageUUID,
+} from './deterministic-uuid.js';
+import { getFolder } from './util.js';
+import { ImportDestination } from './import-destination.js';
+import { MediaLibrary } from './media-library.js';
+
+export type PlanAction = 'create' | 'update' | 'skip' | 'unchanged';
+
+export type PlanDocumentType = 'folder' | 'journal' | 'page' | 'media';
+
+export interface PlanEntry {
+  index: number;
+  type: PlanDocumentType;
+  name: string;
+  path: string;
+  id: string | null;
+  action: PlanAction;
+  // Only pages and media map to a file, and only those can be deselected
+  file: FileInfo | null;
+}
+
+/**
+ * A dry run of an import. Walks the vault the same way LavaFlow.importFolder does and works out what would happen to
+ * each document, without writing anything to the world.
+ */
+export class ImportPlan {
+  entries: PlanEntry[] = [];
+  destination: ImportDestination;
+  // Journals named in frontmatter are shared by every note that names them, so each is only listed once
+  private readonly groupJournalIds = new Set<string>();
+
+  constructor(destination: ImportDestination) {
+    this.destination = destination;
+  }
+
+  static async build(
+    rootFolder: FolderInfo,
+    settings: LavaFlowSettings,
+    destination: ImportDestination,
+    media: MediaLibrary,
+  ): Promise<ImportPlan> {
+    const plan = new ImportPlan(destination);
+
+    let rootFoundryFolder: Folder | null = null;
+    let rootPending = false;
+    if (settings.rootFolderName !== null && settings.rootFolderName !== '') {
+      rootFoundryFolder = await getFolder(settings.rootFolderName, null, destination);
+      rootPending = rootFoundryFolder === null;
+      plan.add(
+        'folder',
+        settings.rootFolderName,
+        settings.rootFolderName,
+        rootFoundryFolder?.id ?? null,
+        rootPending ? 'create' : 'unchanged',
+      );
+    }
+
+    await plan.addFolder(rootFolder, settings, rootFoundryFolder, rootPending, media);
+    return plan;
+  }
+
+  add(
+    type: PlanDocumentType,
+    name: string,
+    path: string,
+    id: string | null,
+    action: PlanAction,
+    file: FileInfo | null = null,
+  ): PlanEntry {
+    const entry: PlanEntry = { index: this.entries.length, type, name, path, id, action, file };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  count(action: PlanAction): number {
+    return this.entries.filter((e) => e.action === action).length;
+  }
+
+  /**
+   * Marks every file whose entry was not left ticked as deselected so the import leaves it alone.
+   */
+  applySelection(selectedIndexes: Set<number>): void {
+    this.entries
+      .filter((e) => e.file !== null)
+      .forEach((e) => {
+        (e.file as FileInfo).selected = selectedIndexes.has(e.index);
+      });
+  }
+
+  private async addFolder(
+    folder: FolderInfo,
+    settings: LavaFlowSettings,
+    parentFolder: Folder | null,
+    parentPending: boolean,
+    media: MediaLibrary,
+    currentPath: string[] = [],
+  ): Promise<void> {
+    const combineFiles = LavaFlow.shouldCombineFiles(folder, settings);
+
+    let parentJournal: JournalEntry | null = null;
+    if (combineFiles) {
+      const folderPath = LavaFlow.getCombinedJournalPath(folder, currentPath);
+      const journalId = generateJournalUUID(folderPath);
+      parentJournal = this.destination.journals.get(journalId) ?? null;
+      this.add('journal', folder.name, folderPath, journalId, parentJournal !== null ? 'unchanged' : 'create');
+    }
+
+    if (LavaFlow.shouldCreateFolder(folder, combineFiles)) {
+      // Mirrors createOrGetFolder: match by name under the parent first, then by deterministic ID
+      const folderId = generateFolderUUID([...currentPath, folder.name]);
+      const match =
+        (parentPending ? null : await getFolder(folder.name, parentFolder?.id ?? null, this.destination)) ??
+        this.destination.folders.get(folderId) ??
+        null;
+      this.add(
+        'folder',
+        folder.name,
+        [...currentPath, folder.name].join('/'),
+        match?.id ?? folderId,
+        match !== null ? 'unchanged' : 'create',
+      );
+      parentFolder = match;
+      parentPending = match === null;
+    }
+
+    for (const file of folder.files) {
+      if (file instanceof MDFileInfo)
+        this.addPage(file, settings, parentFolder, parentPending, parentJournal, combineFiles);
+      else if (file instanceof OtherFileInfo && LavaFlow.linksAttachment(file, settings))
+        await this.addMedia(file, media);
+    }
+
+    const childPath = folder.name !== '' ? [...currentPath, folder.name] : currentPath;
+    for (const child of folder.childFolders)
+      await this.addFolder(child, settings, parentFolder, parentPending, media, childPath);
+  }
+
+  private addPage(
+    file: MDFileInfo,
+    settings: LavaFlowSettings,
+    parentFolder: Folder | null,
+    parentPending: boolean,
+    parentJournal: JournalEntry | null,
+    combineFiles: boolean,
+  ): void {
+    const pageName = file.title;
+    const filePath = file.getVaultPath();
+
+    let journal = parentJournal;
+    if (file.journalName !== null) {
+      const journalId = generateGroupJournalUUID(file.journalName, settings.rootFolderName);
+      journal = this.destination.journals.get(journalId) ?? null;
+      if (!this.groupJournalIds.has(journalId)) {
+        this.groupJournalIds.add(journalId);
+        this.add('journal', file.journalName, file.journalName, journalId, journal !== null ? 'unchanged' : 'create');
+      }
+    } else if (!combineFiles) {
+      const journalId = generateJournalUUID(filePath);
+      journal = parentPending
+        ? (this.destination.journals.get(journalId) ?? null)
+        : LavaFlow.findExistingJournal(filePath, pageName, parentFolder, this.destination);
+      this.add('journal', pageName, filePath, journal?.id ?? journalId, journal !== null ? 'unchanged' : 'create');
+    }
+
+    // A note split at its headings is written as one page per section, listed under the note's title. Only the
+    // first can be unticked, as the note is imported or left alone as a whole.
+    const sections = file.sections.length > 0 ? file.sections : [{ key: file.fileNameNoExt, name: pageName }];
+    sections.forEach((section, index) => {
+      // The first page of a note is keyed by its file name, which stays the same when its title changes
+      const existingPage = journal !== null ? LavaFlow.findPage(journal, filePath, section.key, section.name) : null;
+      const pageId = generatePageUUID(filePath, section.key);
+
+      let action: PlanAction = 'create';
+      if (!file.changed) action = 'unchanged';
+      else if (existingPage !== null && settings.overwrite) action = 'update';
+      else if (existingPage !== null && settings.ignoreDuplicate) action = 'skip';
+      // A page that already has this note's deterministic ID is returned as-is instead of being copied
+      // @ts-expect-error
+      else if (existingPage !== null && journal?.pages.get(pageId) !== undefined) action = 'unchanged';
+
+      const name = index === 0 ? section.name : `${pageName} > ${section.name}`;
+      this.add('page', name, filePath, existingPage?.id ?? pageId, action, index === 0 ? file : null);
+    });
+  }
+
+  /**
+   * Mirrors importOtherFile, and records the upload in the preview's copy of the media library so later attachments
+   * with the same content are shown as skipped.
+   */
+  private async addMedia(file: OtherFileInfo, media: MediaLibrary): Promise<void> {
+    if (file.serverPath !== null) {
+      this.add('media', file.originalFile.name, file.getVaultPath(), null, 'unchanged', file);
+      return;
+    }
+    const target = await media.getTarget(file);
+    let action: PlanAction = 'create';
+    if (!target.upload) action = 'skip';
+    else if (target.url !== null) action = 'update';
+    if (target.upload) media.add(target.path, file, target.url ?? target.path);
+    this.add('media', file.originalFile.name, target.path, null, action, file);
+  }
+}
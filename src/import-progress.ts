@@ -0,0 +1,115 @@
+import LavaFlow from './lava-flow.js';
+
+/**
+ * Thrown at the next step of an import after the user cancels it, so the import stops between files rather than
+ * partway through one.
+ */
+export class ImportCancelled extends Error {
+  constructor() {
+    super('The import was cancelled.');
+    this.name = 'ImportCancelled';
+  }
+}
+
+/**
+ * A window showing what an import is doing: the current phase, the file being worked on and how many of the phase's
+ * files are done, with a button to cancel the rest of the import.
+ */
+export class ImportProgress extends Application {
+  phase: string = 'Starting';
+  file: string = '';
+  done: number = 0;
+  // Zero while the phase cannot tell how much is left
+  total: number = 0;
+  cancelled: boolean = false;
+  finished: boolean = false;
+
+  static get defaultOptions(): ApplicationOptions {
+    return foundry.utils.mergeObject(super.defaultOptions, {
+      id: `${LavaFlow.ID}-progress`,
+      template: LavaFlow.TEMPLATES.PROGRESSDIAG,
+      title: 'Importing Vault',
+      classes: [],
+      width: 450,
+      height: 'auto',
+    }) as ApplicationOptions;
+  }
+
+  getData(): any {
+    return {
+      idPrefix: `${LavaFlow.ID}-`,
+      phase: this.cancelled ? 'Cancelling...' : this.phase,
+      file: this.file,
+      done: this.done,
+      total: this.total,
+    };
+  }
+
+  activateListeners(html: JQuery): void {
+    super.activateListeners(html);
+    html.find('button[name="cancel"]').on('click', () => this.cancel());
+  }
+
+  /**
+   * Starts the next phase of the import. Throws ImportCancelled if the user has cancelled.
+   */
+  setPhase(phase: string, total: number = 0): void {
+    this.check();
+    this.phase = phase;
+    this.file = '';
+    this.done = 0;
+    this.total = total;
+    this.update();
+  }
+
+  /**
+   * Moves on to the next file of the phase. Throws ImportCancelled if the user has cancelled.
+   */
+  step(file: string = ''): void {
+    this.check();
+    this.file = file;
+    this.done++;
+    this.update();
+  }
+
+  check(): void {
+    if (this.cancelled) throw new ImportCancelled();
+  }
+
+  cancel(): void {
+    if (this.finished) return;
+    this.cancelled = true;
+    this.update();
+  }
+
+  async finish(): Promise<void> {
+    this.finished = true;
+    await this.close();
+  }
+
+  /**
+   * Closing the window before the import is done cancels it.
+   */
+  async close(options?: Application.CloseOptions): Promise<void> {
+    this.cancel();
+    await super.close(options);
+  }
+
+  /**
+   * Updates the window in place, since re-rendering it for every file would be slow and make it flicker.
+   */
+  private update(): void {
+    if (!this.rendered) return;
+    const data = this.getData();
+    const html = this.element;
+    html.find('.lava-flow-jrayc-progress-phase').text(data.phase);
+    html.find('.lava-flow-jrayc-progress-file').text(data.file);
+    html
+      .find('.lava-flow-jrayc-progress-count')
+      .text(data.total > 0 ? `${data.done as number} / ${data.total as number}` : '');
+    const bar = html.find('progress');
+    if (data.total > 0) bar.attr({ value: data.done, max: data.total });
+    else bar.removeAttr('value');
+    html.find('button[name="cancel"]').prop('disabled', this.cancelled);
+  }
+}
@@ -0,0 +1,143 @@
+import LavaFlow from './lava-flow.js';
+import { ImportSnapshot } from './import-snapshot.js';
+
+export interface ImportWarning {
+  // Vault path of the note the warning is about
+  file: string;
+  message: string;
+}
+
+// The documents an import writes, by the name of their Foundry document class
+const DOCUMENT_TYPES: Record<string, string> = {
+  Folder: 'Folders',
+  JournalEntry: 'Journals',
+  JournalEntryPage: 'Pages',
+};
+
+type DocumentAction = 'create' | 'update' | 'delete';
+
+/**
+ * What an import did, and the problems it found that did not stop it, shown to the user once the import is done.
+ * Files that failed to import are errors, and the import carries on with the next file.
+ */
+export class ImportReport {
+  warnings: ImportWarning[] = [];
+  errors: ImportWarning[] = [];
+  uploaded: number = 0;
+  skippedUploads: number = 0;
+  unchangedNotes: number = 0;
+  cancelled: boolean = false;
+  // IDs of the documents created, updated and deleted by this user while the import ran, by document type
+  private readonly documents = new Map<string, Record<DocumentAction, Set<string>>>(
+    Object.keys(DOCUMENT_TYPES).map((type) => [type, { create: new Set(), update: new Set(), delete: new Set() }]),
+  );
+
+  private hookIds: Array<[string, number]> = [];
+
+  warn(file: string, message: string): void {
+    // The same problem can be found more than once, e.g. when a note is embedded in several others
+    if (this.warnings.some((w) => w.file === file && w.message === message)) return;
+    this.warnings.push({ file, message });
+    console.warn(LavaFlow.toLogMessage(`${file}: ${message}`));
+  }
+
+  error(file: string, error: any): void {
+    this.errors.push({ file, message: error?.message ?? String(error) });
+    console.error(LavaFlow.toLogMessage(`${file}: ${String(error?.stack ?? error)}`));
+  }
+
+  /**
+   * The vault paths of the files that failed. A file can fail at more than one step of the import.
+   */
+  getFailedFiles(): Set<string> {
+    return new Set(this.errors.map((e) => e.file));
+  }
+
+  /**
+   * Counts the documents the import writes from Foundry's hooks, so creates and updates anywhere in the import are
+   * counted without each of them having to report back. Only the current user's changes are counted.
+   */
+  watch(): void {
+    Object.keys(DOCUMENT_TYPES).forEach((type) => {
+      (['create', 'update', 'delete'] as DocumentAction[]).forEach((action) => {
+        const hook = `${action}${type}`;
+        const id = Hooks.on(hook, (document: any, ...args: any[]) => {
+          if (args[args.length - 1] !== (game as Game).userId) return;
+          // The undo record is saved while the import runs, but is not part of it
+          if (document.id === ImportSnapshot.getJournalId()) return;
+          this.documents.get(type)?.[action].add(document.id as string);
+        });
+        this.hookIds.push([hook, id]);
+      });
+    });
+  }
+
+  unwatch(): void {
+    this.hookIds.forEach(([hook, id]) => Hooks.off(hook, id));
+    this.hookIds = [];
+  }
+
+  private getDocumentCounts(): Array<{ label: string; created: number; updated: number; deleted: number }> {
+    return Object.entries(DOCUMENT_TYPES).map(([type, label]) => {
+      const { create, update, delete: deleted } = this.documents.get(type) as Record<DocumentAction, Set<string>>;
+      // A document is updated just after it is created, e.g. to set its flags, which does not count as an update
+      const updated = [...update].filter((id) => !create.has(id) && !deleted.has(id)).length;
+      return { label, created: create.size, updated, deleted: deleted.size };
+    });
+  }
+
+  private groupByFile(problems: ImportWarning[]): Array<{ file: string; messages: string[] }> {
+    return [...new Set(problems.map((w) => w.file))].sort().map((file) => ({
+      file,
+      messages: problems.filter((w) => w.file === file).map((w) => w.message),
+    }));
+  }
+
+  async render(): Promise<string> {
+    return await renderTemplate(LavaFlow.TEMPLATES.REPORTDIAG, {
+      cancelled: this.cancelled,
+      documents: this.getDocumentCounts(),
+      uploaded: this.uploaded,
+      skippedUploads: this.skippedUploads,
+      unchangedNotes: this.unchangedNotes,
+      errorCount: this.errors.length,
+      warningCount: this.warnings.length,
+      errors: this.groupByFile(this.errors),
+      warnings: this.groupByFile(this.warnings),
+    });
+  }
+
+  async show(): Promise<void> {
+    const content = await this.render();
+    new Dialog(
+      {
+        title: this.cancelled ? 'Import Cancelled' : 'Import Report',
+        content,
+        buttons: {
+          save: {
+            icon: '<i class="fas fa-book"></i>',
+            label: 'Save as Journal',
+            callback: async () => await this.save(),
+          },
+          ok: { icon: '<i class="fas fa-check"></i>', label: 'OK' },
+        },
+        default: 'ok',
+      },
+      { width: 600, resizable: true },
+    ).render(true);
+  }
+
+  /**
+   * Keeps the report as a journal in the world, named after when the import ran.
+   */
+  async save(): Promise<void> {
+    const name = `Lava Flow Import Report (${new Date().toLocaleString()})`;
+    // @ts-expect-error
+    const format = CONST.JOURNAL_ENTRY_PAGE_FORMATS.HTML;
+    await JournalEntry.create({
+      name,
+      pages: [{ name, type: 'text', text: { content: await this.render(), format } }],
+    });
+    LavaFlow.log(`Saved the import report as "${name}".`, true);
+  }
+}
@@ -0,0 +1,341 @@
+import LavaFlow from './lava-flow.js';
+import { ImportDestination } from './import-destination.js';
+import { generateDeterministicUUID } from './deterministic-uuid.js';
+
+type SnapshotDocumentType = 'Folder' | 'JournalEntry' | 'JournalEntryPage';
+
+/**
+ * A document an import created, or the state of one before the import changed or deleted it.
+ */
+interface SnapshotEntry {
+  type: SnapshotDocumentType;
+  id: string;
+  // The journal a page is in
+  parent: string | null;
+  data?: Record<string, any>;
+}
+
+interface SnapshotData {
+  time: number;
+  // The compendium the import went into, or null for the world's journals
+  pack: string | null;
+  // Whether the import created that compendium, in which case undoing it deletes the whole compendium
+  packCreated?: boolean;
+  created: SnapshotEntry[];
+  changed: SnapshotEntry[];
+  deleted: SnapshotEntry[];
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace ClientSettings {
+    interface Values {
+      'lava-flow-jrayc.lastImport': SnapshotData | null;
+    }
+  }
+}
+
+const DOCUMENT_TYPES: SnapshotDocumentType[] = ['Folder', 'JournalEntry', 'JournalEntryPage'];
+
+const SNAPSHOT_JOURNAL_NAME = 'Lava Flow Undo Record';
+// How long after a change the snapshot is saved, so a burst of changes is saved once
+const SAVE_DELAY = 1000;
+
+/**
+ * A record of what the last import did, so it can be undone: the compendium and the documents it created, and the
+ * state of every document it updated or deleted from just before it did. Documents are recorded from Foundry's hooks
+ * as they are written, so every change is covered, including the blanking of markdown when pages are converted to
+ * HTML. Uploaded files are not recorded, since they cannot be deleted from Foundry.
+ *
+ * The record holds whole documents, GM-only text included, so it is kept in a flag on a journal only GMs can see
+ * rather than in a world setting, which would be sent to every player.
+ */
+export class ImportSnapshot {
+  private readonly data: SnapshotData;
+  private hookIds: Array<[string, number]> = [];
+  private saveTimer: number | null = null;
+  // The save in progress. Saves run one after another, so an earlier one never overwrites a later one.
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(data: SnapshotData) {
+    this.data = data;
+  }
+
+  static registerSettings(): void {
+    // Where earlier versions kept the snapshot. It is cleared when the next one is saved.
+    (game as Game).settings.register(LavaFlow.ID, 'lastImport', {
+      scope: 'world',
+      config: false,
+      type: Object,
+      default: null,
+    });
+  }
+
+  /**
+   * The ID of the journal the snapshot is kept on, which is left out of what imports record and report.
+   */
+  static getJournalId(): string {
+    return generateDeterministicUUID(SNAPSHOT_JOURNAL_NAME, 'snapshot');
+  }
+
+  private static getJournal(): JournalEntry | undefined {
+    return (game as Game).journal?.get(ImportSnapshot.getJournalId());
+  }
+
+  /**
+   * Starts the snapshot of an import into the destination. A new compendium the destination is about to create is
+   * recorded once it exists with setPack().
+   */
+  static create(destination: ImportDestination): ImportSnapshot {
+    return new ImportSnapshot({
+      time: Date.now(),
+      pack: destination.pack?.collection ?? null,
+      packCreated: destination.pendingLabel !== null,
+      created: [],
+      changed: [],
+      deleted: [],
+    });
+  }
+
+  async setPack(destination: ImportDestination): Promise<void> {
+    this.data.pack = destination.pack?.collection ?? null;
+    await this.save();
+  }
+
+  /**
+   * The snapshot of the last import, or null if there is nothing to undo.
+   */
+  static load(): ImportSnapshot | null {
+    // A record that cannot be read is treated as no record, so the import window still opens
+    try {
+      const data = ImportSnapshot.getJournal()?.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.SNAPSHOT) as
+        SnapshotData | null | undefined;
+      if (data === null || data === undefined) return null;
+      if (![data.created, data.changed, data.deleted].every((list) => Array.isArray(list)))
+        throw new Error('it is not in the expected format');
+      return new ImportSnapshot(data);
+    } catch (e: any) {
+      console.warn(LavaFlow.toLogMessage(`The undo record could not be read: ${String(e?.message ?? e)}`));
+      return null;
+    }
+  }
+
+  /**
+   * Writes the snapshot to its journal, creating the journal the first time, or removes it when given null.
+   */
+  private static async write(data: SnapshotData | null): Promise<void> {
+    const journal = ImportSnapshot.getJournal();
+    if (data === null) {
+      if (journal?.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.SNAPSHOT) !== undefined)
+        await journal?.unsetFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.SNAPSHOT);
+      return;
+    }
+    if (journal !== undefined) {
+      await journal.setFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.SNAPSHOT, data);
+      return;
+    }
+    await JournalEntry.create(
+      {
+        _id: ImportSnapshot.getJournalId(),
+        name: SNAPSHOT_JOURNAL_NAME,
+        // @ts-expect-error
+        ownership: { default: CONST.DOCUMENT_OWNERSHIP_LEVELS.NONE },
+        flags: { [LavaFlow.FLAGS.SCOPE]: { [LavaFlow.FLAGS.SNAPSHOT]: data } },
+      },
+      { keepId: true },
+    );
+  }
+
+  static async clear(): Promise<void> {
+    await ImportSnapshot.write(null);
+  }
+
+  getLabel(): string {
+    const { created, changed, deleted } = this.data;
+    const pack = this.data.packCreated === true ? ' and a new compendium' : '';
+    return `${new Date(this.data.time).toLocaleString()}: ${created.length} created, ${changed.length} changed, ${deleted.length} deleted${pack}`;
+  }
+
+  private find(list: SnapshotEntry[], type: SnapshotDocumentType, id: string): SnapshotEntry | undefined {
+    return list.find((entry) => entry.type === type && entry.id === id);
+  }
+
+  /**
+   * Starts recording the current user's changes to folders, journals and pages.
+   */
+  watch(): void {
+    DOCUMENT_TYPES.forEach((type) => {
+      const record = (hook: string, callback: (document: any) => void): void => {
+        const id = Hooks.on(hook, (document: any, ...args: any[]) => {
+          if (args[args.length - 1] !== (game as Game).userId) return;
+          if (type === 'Folder' && document.type !== 'JournalEntry') return;
+          if (document.id === ImportSnapshot.getJournalId()) return;
+          callback(document);
+          this.scheduleSave();
+        });
+        this.hookIds.push([hook, id]);
+      };
+      const toEntry = (document: any, withData: boolean): SnapshotEntry => {
+        const entry: SnapshotEntry = {
+          type,
+          id: document.id,
+          parent: type === 'JournalEntryPage' ? document.parent.id : null,
+        };
+        if (withData) entry.data = document.toObject();
+        return entry;
+      };
+
+      record(`create${type}`, (document) => this.data.created.push(toEntry(document, false)));
+      record(`preUpdate${type}`, (document) => {
+        if (this.find(this.data.created, type, document.id) !== undefined) return;
+        if (this.find(this.data.changed, type, document.id) !== undefined) return;
+        const entry = toEntry(document, true);
+        // A journal's pages are recorded on their own when they change, and restoring them with it would undo that
+        if (type === 'JournalEntry') delete entry.data?.pages;
+        this.data.changed.push(entry);
+      });
+      record(`preDelete${type}`, (document) => {
+        const created = this.find(this.data.created, type, document.id);
+        if (created !== undefined) {
+          this.data.created.splice(this.data.created.indexOf(created), 1);
+          return;
+        }
+        // The state from before the import, if it had already changed it
+        const changed = this.find(this.data.changed, type, document.id);
+        const entry = toEntry(document, true);
+        if (changed !== undefined) entry.data = { ...entry.data, ...changed.data };
+        this.data.deleted.push(entry);
+      });
+    });
+  }
+
+  unwatch(): void {
+    this.hookIds.forEach(([hook, id]) => Hooks.off(hook, id));
+    this.hookIds = [];
+  }
+
+  isEmpty(): boolean {
+    if (this.data.packCreated === true) return false;
+    return this.data.created.length + this.data.changed.length + this.data.deleted.length < 1;
+  }
+
+  /**
+   * Saves the snapshot shortly after a change, so an import that stops part way, e.g. because the page was reloaded,
+   * can still be undone up to about then.
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer !== null) return;
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch((e: any) =>
+        console.warn(LavaFlow.toLogMessage(`The undo record could not be saved: ${String(e?.message ?? e)}`)),
+      );
+    }, SAVE_DELAY);
+  }
+
+  /**
+   * Keeps the snapshot as the one to undo, replacing the previous one. It is saved before an import writes anything,
+   * and removed again if the import wrote nothing.
+   */
+  async save(): Promise<void> {
+    if (this.saveTimer !== null) window.clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    const data = this.isEmpty() ? null : this.data;
+    this.saving = this.saving.catch(() => undefined).then(async () => await ImportSnapshot.write(data));
+    await this.saving;
+    if ((game as Game).settings.get(LavaFlow.ID, 'lastImport') !== null)
+      await (game as Game).settings.set(LavaFlow.ID, 'lastImport', null);
+  }
+
+  private async getDestination(): Promise<ImportDestination> {
+    const destination = new ImportDestination();
+    if (this.data.pack === null) return destination;
+    destination.pack = (game as Game).packs.get(this.data.pack) ?? null;
+    if (destination.pack === null) throw new Error(`The compendium ${this.data.pack} no longer exists.`);
+    if (destination.pack.locked === true)
+      throw new Error(`The compendium ${destination.pack.metadata.label as string} is locked. Unlock it to undo.`);
+    await destination.pack.getDocuments();
+    return destination;
+  }
+
+  /**
+   * Groups pages by the journal they are in, leaving out any whose journal no longer exists.
+   */
+  private static byJournal(
+    entries: SnapshotEntry[],
+    destination: ImportDestination,
+  ): Map<JournalEntry, SnapshotEntry[]> {
+    const journals = new Map<JournalEntry, SnapshotEntry[]>();
+    entries.forEach((entry) => {
+      const journal = destination.journals.get(entry.parent ?? '');
+      if (journal !== undefined) journals.set(journal, [...(journals.get(journal) ?? []), entry]);
+    });
+    return journals;
+  }
+
+  /**
+   * Deletes what the import created, puts back what it changed and recreates what it deleted. Edits made since the
+   * import to the documents it touched are lost. The snapshot is cleared afterwards, so an import is only undone once.
+   */
+  async undo(): Promise<void> {
+    // Everything the import wrote is in the compendium it created, if it got as far as creating it
+    if (this.data.packCreated === true) {
+      if (this.data.pack !== null) await (await this.getDestination()).pack.deleteCompendium();
+      await ImportSnapshot.clear();
+      return;
+    }
+    const destination = await this.getDestination();
+    const options = destination.options;
+    const ofType = (list: SnapshotEntry[], type: SnapshotDocumentType): SnapshotEntry[] =>
+      list.filter((e) => e.type === type);
+    const { created, changed, deleted } = this.data;
+
+    // Pages, then journals, then folders, so nothing is deleted twice
+    for (const [journal, entries] of ImportSnapshot.byJournal(ofType(created, 'JournalEntryPage'), destination)) {
+      // @ts-expect-error
+      const ids = entries.map((e) => e.id).filter((id) => journal.pages.has(id));
+      // @ts-expect-error
+      if (ids.length > 0) await JournalEntryPage.deleteDocuments(ids, { parent: journal });
+    }
+    const journalIds = ofType(created, 'JournalEntry')
+      .map((e) => e.id)
+      .filter((id) => destination.journals.has(id));
+    if (journalIds.length > 0) await JournalEntry.deleteDocuments(journalIds, options);
+    const folderIds = ofType(created, 'Folder')
+      .map((e) => e.id)
+      .filter((id) => destination.folders.has(id));
+    if (folderIds.length > 0) await Folder.deleteDocuments(folderIds, options);
+
+    // Deleted documents come back with their old IDs, so links to them work again
+    const folders: any[] = ofType(deleted, 'Folder').map((e) => e.data);
+    if (folders.length > 0) await Folder.createDocuments(folders, { ...options, keepId: true });
+    const journals: any[] = ofType(deleted, 'JournalEntry').map((e) => e.data);
+    if (journals.length > 0) await JournalEntry.createDocuments(journals, { ...options, keepId: true });
+    for (const [journal, entries] of ImportSnapshot.byJournal(ofType(deleted, 'JournalEntryPage'), destination)) {
+      // @ts-expect-error
+      const pages = entries.filter((e) => journal.pages.has(e.id) !== true).map((e) => e.data);
+      // @ts-expect-error
+      if (pages.length > 0) await JournalEntryPage.createDocuments(pages, { parent: journal, keepId: true });
+    }
+
+    // Whole documents are written back, so flags and fields the import added are removed again
+    const restore = { ...options, diff: false, recursive: false };
+    const changedFolders: any[] = ofType(changed, 'Folder')
+      .filter((e) => destination.folders.has(e.id))
+      .map((e) => e.data);
+    if (changedFolders.length > 0) await Folder.updateDocuments(changedFolders, restore);
+    const changedJournals: any[] = ofType(changed, 'JournalEntry')
+      .filter((e) => destination.journals.has(e.id))
+      .map((e) => e.data);
+    if (changedJournals.length > 0) await JournalEntry.updateDocuments(changedJournals, restore);
+    for (const [journal, entries] of ImportSnapshot.byJournal(ofType(changed, 'JournalEntryPage'), destination)) {
+      // @ts-expect-error
+      const pages = entries.filter((e) => journal.pages.has(e.id)).map((e) => e.data);
+      if (pages.length > 0)
+        // @ts-expect-error
+        await JournalEntryPage.updateDocuments(pages, { parent: journal, diff: false, recursive: false });
+    }
+
+    await ImportSnapshot.clear();
+  }
+}
@@ -1,4 +1,11 @@
 import LavaFlow from './lava-flow.js';
+import { MediaLibrary } from './media-library.js';
+import { ImportSnapshot } from './import-snapshot.js';
+
+Hooks.once('init', function () {
+  MediaLibrary.registerSettings();
+  ImportSnapshot.registerSettings();
+});
 
 Hooks.on('renderJournalDirectory', function (app: Application, html: JQuery) {
   try {
@@ -7,3 +14,11 @@ Hooks.on('renderJournalDirectory', function (app: Application, html: JQuery) {
     LavaFlow.errorHandling(e);
   }
 });
+
+Hooks.on('renderJournalPageSheet', function (app: Application, html: JQuery) {
+  try {
+    LavaFlow.registerBlockAnchors(app, html);
+  } catch (e) {
+    LavaFlow.errorHandling(e);
+  }
+});
@@ -1,5 +1,7 @@
 import LavaFlow from './lava-flow.js';
 import { LavaFlowSettings } from './lava-flow-settings.js';
+import { ImportDestination } from './import-destination.js';
+import { ImportSnapshot } from './import-snapshot.js';
 
 export class LavaFlowForm extends FormApplication {
   constructor() {
@@ -14,9 +16,7 @@ export class LavaFlowForm extends FormApplication {
       id: `${LavaFlow.ID}-form`,
       template: LavaFlow.TEMPLATES.IMPORTDIAG,
       title: 'Import Obsidian MD Vault',
-      importSettings:
-        ((game as Game).user?.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.LASTSETTINGS) as LavaFlowSettings) ??
-        new LavaFlowSettings(),
+      importSettings: LavaFlowForm.getSavedSettings(),
       classes: [],
       closeOnSubmit: true,
       submitOnChange: false,
@@ -42,29 +42,87 @@ export class LavaFlowForm extends FormApplication {
     return mergedOptions;
   }
 
+  /**
+   * The settings from the last import. Settings saved by an older version will not have every option, so the gaps
+   * are filled with defaults.
+   */
+  static getSavedSettings(): LavaFlowSettings {
+    const flag = (game as Game).user?.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.LASTSETTINGS);
+    const { stripObsidianComments, ...saved } = (flag as SavedSettings | undefined) ?? {};
+    const settings = Object.assign(new LavaFlowSettings(), saved);
+    // DM blocks used to be a strip checkbox
+    if (saved.dmBlocks === undefined && stripObsidianComments === false) settings.dmBlocks = 'keep';
+    return settings;
+  }
+
   vaultFiles: FileList | null = null;
+  vaultArchive: File | null = null;
 
   async _updateObject(event: Event, formData: any): Promise<void> {
+    if (formData.vaultSource !== 'upload' && (formData.serverVaultPath ?? '').trim() === '') {
+      ui.notifications?.error(LavaFlow.toLogMessage('Choose the vault folder on the server to import.'));
+      return;
+    }
+    if (formData.vaultSource === 'upload' && this.vaultFiles === null && this.vaultArchive === null) {
+      ui.notifications?.error(LavaFlow.toLogMessage('Choose a vault folder or a ZIP of the vault to import.'));
+      return;
+    }
     formData.vaultFiles = this.vaultFiles;
+    formData.vaultArchive = this.vaultArchive;
     await LavaFlow.importVault(event, formData);
   }
 
   getData(options: any): any {
-    return options.importSettings;
+    return {
+      ...options.importSettings,
+      vaultSources: { upload: 'This computer', data: 'Foundry server', s3: 'S3 bucket' },
+      compendiumPacks: ImportDestination.getChoices(),
+      lastImport: ImportSnapshot.load()?.getLabel() ?? null,
+      newCompendiumPack: ImportDestination.NEW_PACK,
+      dmBlockModes: { keep: 'Keep as written', strip: 'Remove', secret: 'Convert to secret sections' },
+      indexLayouts: { tree: 'One page with every group', pages: 'One page per top-level group' },
+      indexGroupings: { folder: 'Folder', tags: 'Tags', frontmatter: 'Frontmatter fields' },
+      indexSorts: { title: 'Title', sort: 'Sort order, then title' },
+      splitHeadingLevels: { 0: "Don't split", 1: 'Heading 1', 2: 'Heading 2', 3: 'Heading 3', 4: 'Heading 4' },
+    };
   }
 
   activateListeners(html: JQuery): void {
+    // Wires up the file picker buttons, among others
+    super.activateListeners(html);
     const prefix = LavaFlowForm.defaultOptions?.importSettings?.idPrefix ?? '';
 
     this.setInverseToggle(`#${prefix}overwrite`, `#${prefix}ignoreDuplicateDiv`);
     this.setToggle(`#${prefix}importNonMarkdown`, `#${prefix}nonMarkdownOptions`);
     this.setToggle(`#${prefix}useS3`, `#${prefix}s3Options`);
     this.setToggle(`#${prefix}combineNotes`, `#${prefix}combineNotesOptions`);
+    this.setToggle(`#${prefix}createIndexFile`, `#${prefix}indexOptions`);
+    this.setToggle(`#${prefix}createBacklinks`, `#${prefix}backlinkOptions`);
+    $(`#${prefix}indexGroupBy`).on('change', (event: any) => {
+      $(`#${prefix}indexGroupFieldsDiv`).toggle(event.target.value === 'frontmatter');
+    });
+    $(`#${prefix}compendiumPack`).on('change', (event: any) => {
+      $(`#${prefix}compendiumLabelDiv`).toggle(event.target.value === ImportDestination.NEW_PACK);
+    });
+
+    $(`#${prefix}vaultSource`).on('change', (event: any) => {
+      $(`#${prefix}uploadVaultOptions`).toggle(event.target.value === 'upload');
+      $(`#${prefix}serverVaultOptions`).toggle(event.target.value !== 'upload');
+      $(`#${prefix}vaultS3BucketDiv`).toggle(event.target.value === 's3');
+    });
 
     const vaultFilesID = `#${prefix}vaultFiles`;
     $(vaultFilesID).on('change', (event: any) => {
       this.vaultFiles = event.target.files;
     });
+    $(`#${prefix}vaultArchive`).on('change', (event: any) => {
+      this.vaultArchive = event.target.files[0] ?? null;
+    });
+    $(`#${prefix}undoImport`).on('click', () => {
+      void LavaFlow.undoLastImport().then((undone) => {
+        if (undone) this.render();
+      });
+    });
   }
 
   setInverseToggle(checkBoxID: string, toggleDivID: string): void {
@@ -79,6 +137,8 @@ export class LavaFlowForm extends FormApplication {
   }
 }
 
+type SavedSettings = Partial<LavaFlowSettings> & { stripObsidianComments?: boolean };
+
 interface LavaFlowFormOptions extends FormApplicationOptions {
   importSettings?: LavaFlowSettings;
 }
@@ -0,0 +1,79 @@
+import LavaFlow from './lava-flow.js';
+import { ImportPlan, PlanDocumentType } from './import-plan.js';
+
+export class LavaFlowPreviewForm extends FormApplication {
+  plan: ImportPlan;
+  confirmed: boolean = false;
+  onClose: (confirmed: boolean) => void;
+
+  constructor(plan: ImportPlan, onClose: (confirmed: boolean) => void) {
+    super(LavaFlowPreviewForm.defaultOptions);
+    this.plan = plan;
+    this.onClose = onClose;
+  }
+
+  static get defaultOptions(): FormApplicationOptions {
+    return foundry.utils.mergeObject(super.defaultOptions, {
+      id: `${LavaFlow.ID}-preview`,
+      template: LavaFlow.TEMPLATES.PREVIEWDIAG,
+      title: 'Import Preview',
+      classes: [],
+      closeOnSubmit: true,
+      submitOnChange: false,
+      submitOnClose: false,
+      width: 600,
+      height: 700,
+      resizable: true,
+    });
+  }
+
+  /**
+   * Shows the plan and waits for the user to either confirm it or close the window.
+   */
+  static async confirm(plan: ImportPlan): Promise<boolean> {
+    return await new Promise((resolve) => {
+      new LavaFlowPreviewForm(plan, resolve).render(true);
+    });
+  }
+
+  getData(): any {
+    const sections: Array<{ type: PlanDocumentType; label: string }> = [
+      { type: 'folder', label: 'Folders' },
+      { type: 'journal', label: 'Journals' },
+      { type: 'page', label: 'Pages' },
+      { type: 'media', label: 'Media' },
+    ];
+    return {
+      idPrefix: `${LavaFlow.ID}-`,
+      destination: this.plan.destination.getLabel(),
+      counts: {
+        create: this.plan.count('create'),
+        update: this.plan.count('update'),
+        skip: this.plan.count('skip'),
+        unchanged: this.plan.count('unchanged'),
+      },
+      sections: sections
+        .map((s) => ({
+          label: s.label,
+          selectable: s.type === 'page' || s.type === 'media',
+          entries: this.plan.entries.filter((e) => e.type === s.type),
+        }))
+        .filter((s) => s.entries.length > 0),
+    };
+  }
+
+  async _updateObject(event: Event, formData: any): Promise<void> {
+    const selectedIndexes = new Set<number>();
+    Object.entries(formData as Record<string, unknown>).forEach(([key, value]) => {
+      const match = key.match(/^entry-(\d+)$/);
+      if (match !== null && value === true) selectedIndexes.add(Number(match[1]));
+    });
+    this.plan.applySelection(selectedIndexes);
+    this.confirmed = true;
+  }
+
+  async close(options?: FormApplication.CloseOptions): Promise<void> {
+    await super.close(options);
+    this.onClose(this.confirmed);
+  }
+}
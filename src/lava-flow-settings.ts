@@ -1,23 +1,63 @@
 import LavaFlow from './lava-flow.js';
 
+// What happens to > [!dm] callouts and :::dm blocks
+export type DMBlockMode = 'keep' | 'strip' | 'secret';
+
+// Whether the index journal is one page with the whole tree, or one page for each top-level group
+export type IndexLayout = 'tree' | 'pages';
+
+// What the index groups notes by: their folders, their tags, or the values of the frontmatter fields in indexGroupFields
+export type IndexGroupBy = 'folder' | 'tags' | 'frontmatter';
+
+// Notes in the index are sorted by title, or by their frontmatter sort order and then title
+export type IndexSort = 'title' | 'sort';
+
+// Where the vault is read from: picked in the browser, or a directory in Foundry's data storage or an S3 bucket
+export type VaultSource = 'upload' | 'data' | 's3';
+
 export class LavaFlowSettings {
   rootFolderName: string | null = null;
+  // The journal compendium to import into, or '' for the world's journals (see ImportDestination)
+  compendiumPack: string = '';
+  compendiumLabel: string = '';
   vaultFiles: FileList | null = null;
+  // A ZIP of the vault, used instead of vaultFiles when it is given
+  vaultArchive: File | null = null;
+  vaultSource: VaultSource = 'upload';
+  serverVaultPath: string = '';
+  vaultS3Bucket: string | null = null;
+  // Glob patterns, one per line, matched against paths in the vault (see VaultFilter)
+  includePatterns: string = '';
+  excludePatterns: string = '';
   imageDirectory: string | null = null;
+  previewImport: boolean = false;
   overwrite: boolean = true;
+  skipUnchanged: boolean = true;
   ignoreDuplicate: boolean = false;
   idPrefix: string = `${LavaFlow.ID}-`; // Will be 'lava-flow-jrayc-'
   playerObserve: boolean = false;
   createIndexFile: boolean = false;
+  indexJournalName: string = 'Index';
+  indexLayout: IndexLayout = 'tree';
+  indexGroupBy: IndexGroupBy = 'folder';
+  // Comma-separated, one level of the index for each
+  indexGroupFields: string = '';
+  indexSort: IndexSort = 'title';
+  indexShowCounts: boolean = true;
+  createTagIndex: boolean = false;
   createBacklinks: boolean = true;
+  backlinkUnlinkedMentions: boolean = false;
+  detectOrphans: boolean = false;
   importNonMarkdown: boolean = true;
   useS3: boolean = false;
   s3Bucket: string | null = null;
   s3Region: string | null = null;
   mediaFolder: string = 'img';
   skipDuplicateImages: boolean = true;
+  preserveMediaPaths: boolean = false;
   combineNotes = false;
   combineNotesNoSubfolders = true;
+  splitHeadingLevel: number = 0;
   useTinyMCE = false;
-  stripObsidianComments: boolean = true; // strips > [!dm] callout blocks
+  dmBlocks: DMBlockMode = 'strip';
 }
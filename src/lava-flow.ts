@@ -1,10 +1,50 @@
-import { FileInfo, MDFileInfo, OtherFileInfo } from './file-info.js';
+import { FileInfo, MDFileInfo, NoteSection, OtherFileInfo, VaultFile } from './file-info.js';
 import { FolderInfo } from './folder-info.js';
 import { LavaFlowForm } from './lava-flow-form.js';
 import { LavaFlowSettings } from './lava-flow-settings.js';
-import { createOrGetFolder } from './util.js';
+import { createOrGetFolder, escapeHtml } from './util.js';
 import { JournalEntryDataConstructorData } from '@league-of-foundry-developers/foundry-vtt-types/src/foundry/common/data/data.mjs/journalEntryData';
-import { generateJournalUUID, generatePageUUID, documentExists } from './deterministic-uuid.js';
+import {
+  generateJournalUUID,
+  generatePageUUID,
+  documentExists,
+  generateIndexJournalUUID,
+  generateGroupJournalUUID,
+} from './deterministic-uuid.js';
+import { ImportPlan } from './import-plan.js';
+import { LavaFlowPreviewForm } from './lava-flow-preview-form.js';
+import { hashText } from './content-hash.js';
+import { Orphans } from './orphans.js';
+import { LinkResolver, ObsidianLink, tokenizeLinks } from './link-resolver.js';
+import { ImportReport } from './import-report.js';
+import {
+  convertBlockReferences,
+  convertCallouts,
+  convertDMBlocks,
+  extractInlineTags,
+  getAnchors,
+  getHeadingAnchor,
+  splitAtHeadings,
+} from './markdown-transforms.js';
+import {
+  FrontmatterError,
+  getFrontmatterList,
+  getFrontmatterText,
+  getFrontmatterValue,
+  parseFrontmatter,
+  splitFrontmatter,
+} from './frontmatter.js';
+import { getFrontmatterOwnership, getOwnershipUpdate, Ownership } from './ownership.js';
+import { ImportDestination } from './import-destination.js';
+import { readVaultArchive, writeVaultArchive } from './vault-archive.js';
+import { readServerVault } from './server-vault.js';
+import { MediaLibrary } from './media-library.js';
+import { findBacklinks, NoteBacklinks, renderBacklinks, replaceBacklinks } from './backlinks.js';
+import { buildIndexTree, renderIndexPages } from './vault-index.js';
+import { VaultFilter } from './vault-filter.js';
+import { ImportCancelled, ImportProgress } from './import-progress.js';
+import { ImportSnapshot } from './import-snapshot.js';
+import { VaultExport } from './vault-export.js';
 
 // eslint-disable-next-line @typescript-eslint/no-extraneous-class
 export default class LavaFlow {
@@ -13,12 +53,25 @@ export default class LavaFlow {
   static FLAGS = {
     FOLDER: 'lavaFlowFolder',
     JOURNAL: 'lavaFlowJournalEntry',
+    SOURCE: 'lavaFlowSource',
+    ORPHANED: 'lavaFlowOrphaned',
+    TAGS: 'lavaFlowTags',
+    ALIASES: 'lavaFlowAliases',
+    FRONTMATTER: 'lavaFlowFrontmatter',
+    SNAPSHOT: 'lavaFlowSnapshot',
     SCOPE: 'world',
     LASTSETTINGS: 'lava-flow-last-settings',
   };
 
+  // Raised whenever the conversion of notes changes, so the next import rewrites every note
+  static RENDER_VERSION = 2;
+
   static TEMPLATES = {
     IMPORTDIAG: `modules/${this.ID}/templates/lava-flow-import.hbs`,
+    PREVIEWDIAG: `modules/${this.ID}/templates/lava-flow-preview.hbs`,
+    ORPHANSDIAG: `modules/${this.ID}/templates/lava-flow-orphans.hbs`,
+    REPORTDIAG: `modules/${this.ID}/templates/lava-flow-report.hbs`,
+    PROGRESSDIAG: `modules/${this.ID}/templates/lava-flow-progress.hbs`,
   };
 
   static log(msg: string, notify: boolean = false): void {
@@ -61,90 +114,289 @@ export default class LavaFlow {
     button.on('click', function () {
       LavaFlow.createForm();
     });
+
+    const exportLabel = (game as Game).i18n.localize('LAVA-FLOW-JRAYC.export-button-label');
+    const exportButton = $(
+      `<button type="button" class="${className}" data-action="exportVault"><i class="fas fa-download"></i>${isV13 ? `<span>${exportLabel}</span>` : ` ${exportLabel}`}</button>`,
+    );
+    exportButton.on('click', function () {
+      LavaFlow.createExportDialog();
+    });
     
     // Use different selector strategy based on version
     if (isV13) {
       // v13: Append to header-actions container
-      $html.find('.header-actions').append(button);
+      $html.find('.header-actions').append(button, exportButton);
     } else {
       // v12: Insert after header-actions
+      button.append(exportButton);
       $html.find('.header-actions:first-child').after(button);
     }
   }
 
+  /**
+   * Foundry only scrolls to anchors in a page's table of contents, which is built from headings. Adding the block
+   * anchors to it lets block reference links jump to their paragraph too.
+   */
+  static registerBlockAnchors(sheet: any, html: JQuery | HTMLElement): void {
+    if (sheet?.toc === undefined || sheet.toc === null) return;
+    $(html)
+      .find('[data-lava-flow-block]')
+      .each((_index, element) => {
+        sheet.toc[element.id] ??= { element, slug: element.id, text: '', level: 0 };
+      });
+  }
+
   static createForm(): void {
     if (!LavaFlow.isGM()) return;
     new LavaFlowForm().render(true);
   }
 
+  /**
+   * Asks which imported folder to export, then downloads it as a ZIP of the vault.
+   */
+  static createExportDialog(): void {
+    if (!LavaFlow.isGM()) return;
+    const folders = VaultExport.getFolderChoices();
+    if (Object.keys(folders).length < 1) {
+      ui.notifications?.warn(LavaFlow.toLogMessage('There are no imported folders to export.'));
+      return;
+    }
+    const options = Object.entries(folders)
+      .map(([id, label]) => `<option value="${id}">${escapeHtml(label)}</option>`)
+      .join('');
+    new Dialog({
+      title: 'Export to Obsidian',
+      content: `<form><div class="form-group"><label>Folder</label><select name="folder">${options}</select></div><p class="notes">The notes imported into the folder and its subfolders are downloaded as a ZIP of markdown files, at their paths in the vault. Attachments are not included.</p></form>`,
+      buttons: {
+        export: {
+          icon: '<i class="fas fa-download"></i>',
+          label: 'Export',
+          callback: (html) => {
+            const folder = (game as Game).folders?.get(String($(html).find('select[name="folder"]').val()));
+            if (folder === undefined) return;
+            try {
+              LavaFlow.exportVault(folder);
+            } catch (e: any) {
+              LavaFlow.errorHandling(e);
+            }
+          },
+        },
+        cancel: { icon: '<i class="fas fa-times"></i>', label: 'Cancel' },
+      },
+      default: 'export',
+    }).render(true);
+  }
+
+  /**
+   * Downloads the notes imported into a folder as a ZIP of the vault, named after the folder.
+   */
+  static exportVault(folder: Folder): void {
+    const files = new VaultExport(folder).getFiles();
+    if (files.length < 1) throw new Error(`There are no imported notes in ${folder.name as string} to export.`);
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(writeVaultArchive(files));
+    link.download = `${folder.name as string}.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 100);
+    LavaFlow.log(`Exported ${files.length} notes from ${folder.name as string}.`, true);
+  }
+
   static async importVault(event: Event, settings: LavaFlowSettings): Promise<void> {
     if (!LavaFlow.isGM()) return;
     LavaFlow.log('Begin import...', true);
 
+    const report = new ImportReport();
+    const progress = new ImportProgress();
+    let media: MediaLibrary | null = null;
+    let snapshot: ImportSnapshot | null = null;
+    // Set once the import starts writing to the world, after which the report is always shown
+    let started = false;
+
     try {
       await this.saveSettings(settings);
 
-      if (settings.vaultFiles == null) return;
-
-      if (settings.importNonMarkdown) {
-        await LavaFlow.validateUploadLocation(settings);
+      if (settings.vaultSource === 'upload' && settings.vaultFiles == null && settings.vaultArchive == null) return;
+
+      progress.render(true);
+      progress.setPhase('Reading vault');
+
+      // What is already in the media folder, and which of it earlier imports uploaded
+      media = LavaFlow.uploadsMedia(settings) ? await MediaLibrary.load(settings) : new MediaLibrary(settings);
+
+      const vaultFiles = await LavaFlow.getVaultFiles(settings);
+      const rootFolder = LavaFlow.createFolderStructure(vaultFiles, await VaultFilter.get(settings, vaultFiles));
+      const mdFiles: MDFileInfo[] = [];
+
+      // Every note is parsed up front, even unchanged ones: aliases are needed to resolve links, and any note can be
+      // embedded in one that did change
+      const notes = rootFolder.getFilesRecursive().filter((f) => f instanceof MDFileInfo) as MDFileInfo[];
+      progress.setPhase('Reading notes', notes.length);
+      for (const file of notes) {
+        progress.step(file.getVaultPath());
+        // A note that cannot be read is left out like one with "lavaflow: false", and the rest are still imported
+        try {
+          await LavaFlow.readNote(file, settings, report);
+        } catch (e: any) {
+          report.error(file.getVaultPath(), e);
+          rootFolder.removeFile(file);
+          continue;
+        }
+        // A note can leave itself out of the import with "lavaflow: false". Links to it are left unresolved.
+        if (getFrontmatterValue(file.frontmatter, 'lavaflow') === false) {
+          rootFolder.removeFile(file);
+          continue;
+        }
+        mdFiles.push(file);
       }
 
-      // Pre-scan for existing images if skip duplicates is enabled
-      let existingImagePaths: Map<string, string> = new Map();
-      let totalImages = 0;
-      let skippedImages = 0;
-
-      if (settings.importNonMarkdown && settings.skipDuplicateImages) {
-        const result = await LavaFlow.getExistingImageFiles(settings);
-        existingImagePaths = result.existingFiles;
+      progress.setPhase('Comparing with the last import');
+      const destination = await ImportDestination.get(settings);
+      const resolver = new LinkResolver(rootFolder.getFilesRecursive());
+      resolver.addAliases(mdFiles, report);
+      await LavaFlow.markChangedFiles(mdFiles, settings, resolver, destination);
+      report.unchangedNotes = mdFiles.filter((f) => !f.changed).length;
+
+      // Nothing has been written to the world yet, so the user can still back out
+      if (settings.previewImport) {
+        const plan = await ImportPlan.build(rootFolder, settings, destination, media.clone());
+        const confirmed = await LavaFlowPreviewForm.confirm(plan);
+        if (!confirmed) {
+          LavaFlow.log('Import cancelled.', true);
+          return;
+        }
       }
 
-      const rootFoundryFolder = await createOrGetFolder(settings.rootFolderName);
-
-      const rootFolder = LavaFlow.createFolderStructure(settings.vaultFiles);
-
-      // Pass the existing image paths to the import process
-      const importStats = await LavaFlow.importFolder(rootFolder, settings, rootFoundryFolder, existingImagePaths);
-      totalImages = importStats.totalImages;
-      skippedImages = importStats.skippedImages;
-
-      const importedFiles: FileInfo[] = rootFolder.getFilesRecursive();
-
-      const allJournals = importedFiles
-        .filter((f) => f.journalPage !== null)
-        // @ts-expect-error
-        .map((f) => f.journalPage) as JournalEntryPage[];
-      for (let i = 0; i < importedFiles.length; i++) await LavaFlow.updateLinks(importedFiles[i], allJournals);
+      if (LavaFlow.uploadsMedia(settings)) {
+        await LavaFlow.validateUploadLocation(settings);
+      }
 
-      if (settings.createIndexFile || settings.createBacklinks) {
-        const mdFiles = importedFiles.filter((f) => f instanceof MDFileInfo) as MDFileInfo[];
-        if (settings.createIndexFile) await LavaFlow.createIndexFile(settings, mdFiles, rootFoundryFolder);
+      started = true;
+      // Everything from here on can be undone. The snapshot is saved before anything is written, and again as the
+      // import runs, so an import that stops part way can be undone too.
+      snapshot = ImportSnapshot.create(destination);
+      await snapshot.save();
+      await destination.create();
+      await snapshot.setPack(destination);
+      snapshot.watch();
+      report.watch();
+      const rootFoundryFolder = await createOrGetFolder(settings.rootFolderName, null, [], destination);
+      await LavaFlow.assignGroupJournals(mdFiles, settings, rootFoundryFolder, destination);
+
+      progress.setPhase('Importing notes and media', rootFolder.getFilesRecursive().length);
+      await LavaFlow.importFolder(rootFolder, settings, rootFoundryFolder, destination, media, report, progress);
+
+      // Only pages that were rewritten from their source still contain Obsidian links to resolve
+      const rewrittenFiles = mdFiles.filter((f) => f.journalPage !== null && f.selected && f.changed);
+      // @ts-expect-error
+      const allJournals = rewrittenFiles.flatMap((f) => f.sections.map((s) => s.page)).filter((p) => p !== null) as JournalEntryPage[];
+      progress.setPhase('Resolving links');
+      await LavaFlow.updateLinks(resolver, rewrittenFiles, report);
+
+      const producedIds = new Set(rootFolder.getDocumentIdsRecursive());
+      if (rootFoundryFolder !== null) producedIds.add(rootFoundryFolder.id as string);
+      // A note that failed has no page this run, but the ones it already had are still its own
+      LavaFlow.getSourceDocumentIds(report.getFailedFiles(), destination).forEach((id) => producedIds.add(id));
+
+      progress.setPhase(settings.createIndexFile ? 'Creating index and backlinks' : 'Updating backlinks');
+      if (settings.createIndexFile) {
+        const indexJournal = await LavaFlow.createIndexFile(settings, mdFiles, rootFoundryFolder, destination, report);
+        producedIds.add(indexJournal.id as string);
+      }
+      // With backlinks turned off, this removes the sections earlier imports added
+      await LavaFlow.createBacklinks(mdFiles, resolver, settings, report);
 
-        if (settings.createBacklinks) await LavaFlow.createBacklinks(mdFiles);
+      if (settings.createTagIndex) {
+        progress.setPhase('Creating tag journal');
+        const tagJournal = await LavaFlow.createTagIndex(settings, mdFiles, rootFoundryFolder, destination);
+        producedIds.add(tagJournal.id as string);
       }
 
       // Update to HTML after we have done all our MD edits
-      if(settings.useTinyMCE)
+      if(settings.useTinyMCE) {
+        progress.setPhase('Converting pages to HTML');
         await LavaFlow.ConvertAllToHTML(allJournals);
+      }
+
+      // Anything flagged under the root folder that this run did not produce came from a note that is gone
+      if (settings.detectOrphans) {
+        progress.setPhase('Looking for orphans');
+        const newPages = mdFiles.filter((f) => f.pageCreated).map((f) => f.journalPage);
+        const orphans = Orphans.find(producedIds, rootFoundryFolder, newPages, destination);
+        if (!orphans.isEmpty()) await orphans.apply(await orphans.prompt(), rootFoundryFolder, destination);
+      }
 
       // Show completion message with summary
       let message = 'Import complete.';
-      if (settings.importNonMarkdown && settings.skipDuplicateImages && totalImages > 0) {
-        message += ` Skipped ${skippedImages}/${totalImages} duplicate images.`;
+      const totalImages = report.uploaded + report.skippedUploads;
+      if (LavaFlow.uploadsMedia(settings) && settings.skipDuplicateImages && totalImages > 0) {
+        message += ` Skipped ${report.skippedUploads}/${totalImages} duplicate images.`;
       }
+      if (report.unchangedNotes > 0) message += ` Skipped ${report.unchangedNotes} unchanged notes.`;
+      const failed = report.getFailedFiles().size;
+      if (failed > 0) message += ` ${failed} files failed.`;
+      if (report.warnings.length > 0) message += ` ${report.warnings.length} warnings.`;
       LavaFlow.log(message, true);
+    } catch (e: any) {
+      if (e instanceof ImportCancelled) {
+        report.cancelled = true;
+        LavaFlow.log('Import cancelled.', true);
+      } else LavaFlow.errorHandling(e);
+    } finally {
+      report.unwatch();
+      snapshot?.unwatch();
+      await progress.finish();
+    }
+
+    if (!started) return;
+    try {
+      // Whatever was written before a cancel or error is recorded either way
+      await snapshot?.save();
+      if (LavaFlow.uploadsMedia(settings) && media !== null) await media.save();
+    } catch (e: any) {
+      LavaFlow.errorHandling(e);
+    }
+    await report.show();
+  }
+
+  /**
+   * Asks for confirmation, then undoes the last import. Returns whether it was undone.
+   */
+  static async undoLastImport(): Promise<boolean> {
+    if (!LavaFlow.isGM()) return false;
+    const snapshot = ImportSnapshot.load();
+    if (snapshot === null) return false;
+    const confirmed = await Dialog.confirm({
+      title: 'Undo Last Import',
+      content: `<p>Undo the import of ${snapshot.getLabel()}?</p><p>Anything edited in those journals since then will be lost.</p>`,
+    });
+    if (confirmed !== true) return false;
+    try {
+      await snapshot.undo();
+      LavaFlow.log('The last import was undone.', true);
+      return true;
     } catch (e: any) {
       LavaFlow.errorHandling(e);
+      return false;
     }
-  }  
+  }
 
-  static createFolderStructure(fileList: FileList): FolderInfo {
+  /**
+   * The files picked from the vault folder, unpacked from the vault's ZIP if one was given instead, or read from the
+   * server.
+   */
+  static async getVaultFiles(settings: LavaFlowSettings): Promise<VaultFile[]> {
+    if (settings.vaultSource !== 'upload') return await readServerVault(settings);
+    if (settings.vaultArchive !== null) return await readVaultArchive(settings.vaultArchive);
+    return Array.from(settings.vaultFiles ?? []).map((file) => ({ file, path: file.webkitRelativePath }));
+  }
+
+  static createFolderStructure(fileList: VaultFile[], filter: VaultFilter = new VaultFilter()): FolderInfo {
     // let previousDirectories: string[] = [];
     const rootFolder = new FolderInfo('');
     for (let i = 0; i < fileList.length; i++) {
       const file = FileInfo.get(fileList[i]);
-      if (file.isHidden() || file.isCanvas()) continue;
+      if (file.isHidden() || file.isCanvas() || !filter.isIncluded(file.getVaultPath())) continue;
       let parentFolder = rootFolder;
       // Skip the first directory (vault root folder name) to ensure consistent IDs
       const directoriesWithoutRoot = file.directories.length > 1 ? file.directories.slice(1) : [];
@@ -160,10 +412,238 @@ export default class LavaFlow {
     return rootFolder;
   }
 
+  /**
+   * Reads a note's frontmatter and the properties that come from it. Problems with single properties are warnings.
+   */
+  static async readNote(file: MDFileInfo, settings: LavaFlowSettings, report: ImportReport): Promise<void> {
+    const { body, frontmatter } = await LavaFlow.parseFrontmatterAndBody(file, settings, report);
+    file.body = body;
+    file.frontmatter = frontmatter;
+    file.ownership = getFrontmatterOwnership(frontmatter, (message) => report.warn(file.getVaultPath(), message));
+    file.tags = [
+      ...new Set([
+        ...getFrontmatterList(frontmatter, 'tags', 'tag').map((tag) => tag.replace(/^#/, '')),
+        ...extractInlineTags(body),
+      ]),
+    ];
+    file.aliases = getFrontmatterList(frontmatter, 'aliases', 'alias');
+    file.title = getFrontmatterText(frontmatter, 'title') ?? file.fileNameNoExt;
+    file.sort = LavaFlow.getSortOrder(frontmatter, (message) => report.warn(file.getVaultPath(), message));
+    file.journalName = getFrontmatterText(frontmatter, 'journal');
+    file.splitLevel = LavaFlow.getSplitLevel(frontmatter, settings, (message) => report.warn(file.getVaultPath(), message));
+    file.sections = LavaFlow.getSections(file);
+  }
+
+  /**
+   * The settings that change what a note's page looks like or where it goes, as a string hashed along with the note,
+   * so that changing any of them rewrites unchanged notes too. RENDER_VERSION covers changes to the conversions
+   * themselves.
+   */
+  static getRenderFingerprint(settings: LavaFlowSettings): string {
+    return JSON.stringify([
+      LavaFlow.RENDER_VERSION,
+      settings.dmBlocks,
+      settings.useTinyMCE,
+      settings.importNonMarkdown,
+      settings.useS3,
+      settings.s3Bucket,
+      settings.mediaFolder,
+      settings.preserveMediaPaths,
+      settings.rootFolderName,
+      settings.combineNotes,
+      settings.combineNotesNoSubfolders,
+      settings.playerObserve,
+      settings.createIndexFile,
+      settings.indexJournalName,
+      settings.indexLayout,
+      settings.indexGroupBy,
+      settings.indexGroupFields,
+      settings.indexSort,
+    ]);
+  }
+
+  /**
+   * Hashes every note, together with the render settings and what each of its links resolves to, and compares it
+   * against the hash stored on its page by the last import. Notes that have not changed are pointed at their existing
+   * page and left alone, unless they link to a note that did change. A link whose target was added, deleted or moved
+   * changes the hash of the note it is in.
+   */
+  static async markChangedFiles(
+    files: MDFileInfo[],
+    settings: LavaFlowSettings,
+    resolver: LinkResolver,
+    destination: ImportDestination,
+  ): Promise<void> {
+    const sourcePages = LavaFlow.getSourcePages(destination);
+    const fingerprint = LavaFlow.getRenderFingerprint(settings);
+    const fileLinks = new Map<MDFileInfo, ObsidianLink[]>();
+    for (const file of files) {
+      const text = await file.originalFile.text();
+      const links = tokenizeLinks(text);
+      fileLinks.set(file, links);
+      const targets = links.map((link) => resolver.resolve(link, file)?.getVaultPath() ?? '');
+      file.contentHash = hashText([fingerprint, targets.join('|'), text].join('\n'));
+      const page = sourcePages.get(file.getVaultPath());
+      const source = page?.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.SOURCE) as SourceFlag | undefined;
+      if (!settings.skipUnchanged || source?.hash !== file.contentHash || (source.split ?? 0) !== file.splitLevel)
+        continue;
+      // Every page of a split note has to still be there for the note to be left alone
+      file.sections.forEach((section) => {
+        section.page = LavaFlow.findPage(page.parent, file.getVaultPath(), section.key, section.name);
+      });
+      if (file.sections.every((section) => section.page !== null)) {
+        file.changed = false;
+        file.journalPage = file.sections[0]?.page ?? null;
+      }
+    }
+
+    // A changed note may be a new link target, so anything linking to it is rewritten from source and re-resolved.
+    // Embedded content is copied into the embedding note, so embeds also pick up notes that changed because of this.
+    const sourceChanged = new Set<FileInfo>(files.filter((f) => f.changed));
+    if (sourceChanged.size < 1) return;
+    const changed = new Set<FileInfo>(sourceChanged);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const [file, links] of fileLinks) {
+        if (file.changed) continue;
+        const dependsOnChange = links.some((link) => {
+          const target = resolver.resolve(link, file) as FileInfo;
+          return sourceChanged.has(target) || (link.embed && changed.has(target));
+        });
+        if (!dependsOnChange) continue;
+        file.changed = true;
+        changed.add(file);
+        added = true;
+      }
+    }
+  }
+
+  /**
+   * Finds every page created by a previous import into the destination, keyed by the vault path of the note it came
+   * from.
+   */
+  // @ts-expect-error
+  static getSourcePages(destination: ImportDestination): Map<string, JournalEntryPage> {
+    // @ts-expect-error
+    const pages = new Map<string, JournalEntryPage>();
+    destination.journals.forEach((journal) => {
+      // @ts-expect-error
+      journal.pages.forEach((page: JournalEntryPage) => {
+        const source = page.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.SOURCE) as SourceFlag | undefined;
+        if (source?.path !== undefined) pages.set(source.path, page);
+      });
+    });
+    return pages;
+  }
+
+  /**
+   * The IDs of the pages imported from any of the given notes, and of the journals and folders they are in.
+   */
+  static getSourceDocumentIds(paths: Set<string>, destination: ImportDestination): string[] {
+    const ids = new Set<string>();
+    destination.journals.forEach((journal) => {
+      // @ts-expect-error
+      journal.pages.forEach((page: JournalEntryPage) => {
+        const source = page.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.SOURCE) as SourceFlag | undefined;
+        if (source === undefined || !paths.has(source.path)) return;
+        ids.add(page.id).add(journal.id as string);
+        for (let folder = journal.folder; folder !== null && folder !== undefined; folder = folder.folder)
+          ids.add(folder.id as string);
+      });
+    });
+    return [...ids];
+  }
+
+  static getSourceFlags(file: MDFileInfo): Record<string, SourceFlag> {
+    return {
+      [LavaFlow.FLAGS.SOURCE]: {
+        path: file.getVaultPath(),
+        hash: file.contentHash ?? '',
+        mtime: file.originalFile.lastModified,
+        split: file.splitLevel,
+      },
+    };
+  }
+
+  /**
+   * The heading level a note is split into pages at. Frontmatter such as `split: h2` (or `split: false`) overrides
+   * the import setting.
+   */
+  static getSplitLevel(
+    frontmatter: Record<string, unknown>,
+    settings: LavaFlowSettings,
+    warn: (message: string) => void,
+  ): number {
+    const value = getFrontmatterValue(frontmatter, 'split');
+    if (value === undefined || value === null) return settings.splitHeadingLevel;
+    if (value === false || /^(?:none|no|0)$/i.test(String(value))) return 0;
+    const match = String(value).match(/^h?([1-6])$/i);
+    if (match !== null) return Number(match[1]);
+    warn(`"split: ${String(value)}" is not a heading level, such as h2, so the import setting was used.`);
+    return settings.splitHeadingLevel;
+  }
+
+  /**
+   * Where a note goes among the pages of its journal, from `sort` or `order` in its frontmatter. Pages with a lower
+   * number come first.
+   */
+  static getSortOrder(frontmatter: Record<string, unknown>, warn: (message: string) => void): number | null {
+    const value = getFrontmatterValue(frontmatter, 'sort') ?? getFrontmatterValue(frontmatter, 'order');
+    if (value === undefined || value === null) return null;
+    const order = Number(value);
+    if (typeof value !== 'boolean' && String(value).trim() !== '' && Number.isFinite(order)) return order;
+    warn(`"sort: ${String(value)}" is not a number, so the page was left in Foundry's order.`);
+    return null;
+  }
+
+  /**
+   * The pages a note is imported as. A split note starts with a page titled after the note for any text before its
+   * first heading, then has a page per heading.
+   */
+  static getSections(file: MDFileInfo): NoteSection[] {
+    const body = file.body ?? '';
+    let parts = file.splitLevel > 0 ? splitAtHeadings(body, file.splitLevel) : [];
+    if (parts.length < 1) parts = [{ heading: null, content: body }];
+    const names = new Set<string>();
+    return parts.map(({ heading, content }) => {
+      // Page IDs come from their names, so repeated headings are numbered to keep them apart. The first page is
+      // keyed by the file name rather than its title, so retitling a note keeps its page.
+      const baseName = heading ?? file.fileNameNoExt;
+      let key = baseName;
+      for (let i = 2; names.has(key); i++) key = `${baseName} (${i})`;
+      names.add(key);
+      return {
+        key,
+        name: heading === null ? file.title : key,
+        content,
+        headingAnchor: heading !== null ? getHeadingAnchor(heading) : null,
+        anchors: file.splitLevel > 0 ? getAnchors(content) : [],
+        page: null,
+      };
+    });
+  }
+
+  /**
+   * Tags, aliases and the rest of the frontmatter, so macros and other modules can look pages up by them.
+   */
+  static getMetadataFlags(file: MDFileInfo): Record<string, unknown> {
+    const listKeys = ['tags', 'tag', 'aliases', 'alias'];
+    const frontmatter = Object.fromEntries(
+      Object.entries(file.frontmatter).filter(([key]) => !listKeys.includes(key.toLowerCase())),
+    );
+    return {
+      [LavaFlow.FLAGS.TAGS]: file.tags,
+      [LavaFlow.FLAGS.ALIASES]: file.aliases,
+      [LavaFlow.FLAGS.FRONTMATTER]: frontmatter,
+    };
+  }
+
   static async saveSettings(settings: LavaFlowSettings): Promise<void> {
     const savedSettings = new LavaFlowSettings();
     Object.assign(savedSettings, settings);
     savedSettings.vaultFiles = null;
+    savedSettings.vaultArchive = null;
     await (game as Game).user?.setFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.LASTSETTINGS, savedSettings);
   }
 
@@ -171,53 +651,107 @@ export default class LavaFlow {
     folder: FolderInfo,
     settings: LavaFlowSettings,
     parentFolder: Folder | null,
-    existingImagePaths: Map<string, string> = new Map(),
+    destination: ImportDestination,
+    media: MediaLibrary,
+    report: ImportReport,
+    progress: ImportProgress,
     currentPath: string[] = [],
-  ): Promise<{ totalImages: number; skippedImages: number }> {
-    let totalImages = 0;
-    let skippedImages = 0;
-
-    const hasMDFiles = folder.files.filter((f) => f instanceof MDFileInfo).length > 0;
-    const combineFiles =
-      settings.combineNotes && hasMDFiles && (!settings.combineNotesNoSubfolders || folder.childFolders.length < 1);
+  ): Promise<void> {
+    const combineFiles = LavaFlow.shouldCombineFiles(folder, settings);
 
     let parentJournal: JournalEntry | null = null;
 
-    const oneJournalPerFile =
-      !combineFiles &&
-      folder.name !== '' &&
-      folder.getFilesRecursive().filter((f) => f instanceof MDFileInfo).length > 0;
-
     if (combineFiles) {
       // For combined folders, use the folder path as the journal identifier
-      const folderPath = folder.name !== '' ? [...currentPath, folder.name].join('/') : currentPath.join('/');
-      parentJournal = await this.createJournal(folder.name, parentFolder, settings.playerObserve, folderPath);
+      const folderPath = LavaFlow.getCombinedJournalPath(folder, currentPath);
+      parentJournal = await this.createJournal(folder.name, parentFolder, settings.playerObserve, destination, folderPath);
+      folder.journal = parentJournal;
     }
 
-    if (
-      oneJournalPerFile ||
-      (combineFiles &&
-        folder.childFolders.filter(
-          (childFolder) => childFolder.getFilesRecursive().filter((f) => f instanceof MDFileInfo).length > 0,
-        ).length > 0)
-    ) {
-      parentFolder = await createOrGetFolder(folder.name, parentFolder?.id, currentPath);
+    if (LavaFlow.shouldCreateFolder(folder, combineFiles)) {
+      parentFolder = await createOrGetFolder(folder.name, parentFolder?.id, currentPath, destination);
+      folder.foundryFolder = parentFolder;
     }
 
-    for (let i = 0; i < folder.files.length; i++) {
-      const stats = await this.importFile(folder.files[i], settings, parentFolder, parentJournal, existingImagePaths);
-      totalImages += stats.totalImages;
-      skippedImages += stats.skippedImages;
+    for (const file of folder.files) {
+      progress.step(file.getVaultPath());
+      // A file that fails is left out, and the rest of the vault is still imported
+      try {
+        const stats = await this.importFile(file, settings, parentFolder, parentJournal, destination, media);
+        report.skippedUploads += stats.skippedImages;
+        report.uploaded += stats.totalImages - stats.skippedImages;
+      } catch (e: any) {
+        report.error(file.getVaultPath(), e);
+      }
     }
 
     for (let i = 0; i < folder.childFolders.length; i++) {
       const childPath = folder.name !== '' ? [...currentPath, folder.name] : currentPath;
-      const stats = await this.importFolder(folder.childFolders[i], settings, parentFolder, existingImagePaths, childPath);
-      totalImages += stats.totalImages;
-      skippedImages += stats.skippedImages;
+      await this.importFolder(
+        folder.childFolders[i],
+        settings,
+        parentFolder,
+        destination,
+        media,
+        report,
+        progress,
+        childPath,
+      );
+    }
+  }
+
+  /**
+   * Finds or creates the journals that notes are gathered into by frontmatter such as `journal: "Chapter 1"`. They go
+   * in the top journal folder, wherever the notes are in the vault. A journal is only created for notes that are
+   * about to be written.
+   */
+  static async assignGroupJournals(
+    files: MDFileInfo[],
+    settings: LavaFlowSettings,
+    rootFolder: Folder | null,
+    destination: ImportDestination,
+  ): Promise<void> {
+    const journals = new Map<string, JournalEntry>();
+    for (const file of files) {
+      if (file.journalName === null) continue;
+      const journalId = generateGroupJournalUUID(file.journalName, settings.rootFolderName);
+      let journal = journals.get(journalId) ?? destination.journals.get(journalId) ?? null;
+      if (journal === null && file.selected && file.changed)
+        journal = await LavaFlow.createJournal(
+          file.journalName,
+          rootFolder,
+          settings.playerObserve,
+          destination,
+          undefined,
+          journalId,
+        );
+      if (journal !== null) journals.set(journalId, journal);
+      file.targetJournal = journal;
     }
+  }
 
-    return { totalImages, skippedImages };
+  static shouldCombineFiles(folder: FolderInfo, settings: LavaFlowSettings): boolean {
+    const hasMDFiles = folder.files.filter((f) => f instanceof MDFileInfo).length > 0;
+    return settings.combineNotes && hasMDFiles && (!settings.combineNotesNoSubfolders || folder.childFolders.length < 1);
+  }
+
+  static shouldCreateFolder(folder: FolderInfo, combineFiles: boolean): boolean {
+    const oneJournalPerFile =
+      !combineFiles &&
+      folder.name !== '' &&
+      folder.getFilesRecursive().filter((f) => f instanceof MDFileInfo).length > 0;
+
+    return (
+      oneJournalPerFile ||
+      (combineFiles &&
+        folder.childFolders.filter(
+          (childFolder) => childFolder.getFilesRecursive().filter((f) => f instanceof MDFileInfo).length > 0,
+        ).length > 0)
+    );
+  }
+
+  static getCombinedJournalPath(folder: FolderInfo, currentPath: string[]): string {
+    return folder.name !== '' ? [...currentPath, folder.name].join('/') : currentPath.join('/');
   }
 
   static async importFile(
@@ -225,13 +759,16 @@ export default class LavaFlow {
     settings: LavaFlowSettings,
     rootFolder: Folder | null,
     parentJournal: JournalEntry | null,
-    existingImagePaths: Map<string, string> = new Map(),
+    destination: ImportDestination,
+    media: MediaLibrary,
   ): Promise<{ totalImages: number; skippedImages: number }> {
     if (file instanceof MDFileInfo) {
-      await this.importMarkdownFile(file, settings, rootFolder, parentJournal);
+      await this.importMarkdownFile(file, settings, rootFolder, parentJournal, destination);
       return { totalImages: 0, skippedImages: 0 };
-    } else if (settings.importNonMarkdown && file instanceof OtherFileInfo) {
-      const wasSkipped = await this.importOtherFile(file, settings, existingImagePaths);
+    } else if (file instanceof OtherFileInfo && LavaFlow.linksAttachment(file, settings)) {
+      const wasSkipped = await this.importOtherFile(file, media);
+      // Attachments of a server vault are linked where they are, and are neither uploads nor skipped ones
+      if (file.serverPath !== null) return { totalImages: 0, skippedImages: 0 };
       return { totalImages: 1, skippedImages: wasSkipped ? 1 : 0 };
     }
     return { totalImages: 0, skippedImages: 0 };
@@ -242,104 +779,184 @@ export default class LavaFlow {
     settings: LavaFlowSettings,
     parentFolder: Folder | null,
     parentJournal: JournalEntry | null,
+    destination: ImportDestination,
   ): Promise<void> {
-    const pageName = file.fileNameNoExt;
-    const journalName = parentJournal?.name ?? pageName;
-
-    // Get the file path without the vault root folder for deterministic UUID generation
-    // This ensures the same file has the same ID regardless of vault folder name
-    const pathParts = file.originalFile.webkitRelativePath.split('/');
-    const filePath = pathParts.length > 1 ? pathParts.slice(1).join('/') : file.originalFile.webkitRelativePath;
+    // A note gathered into a journal by its frontmatter goes there instead of where its folder would put it
+    if (file.targetJournal !== null) parentJournal = file.targetJournal;
+    const journalName = parentJournal?.name ?? file.title;
+    const filePath = file.getVaultPath();
+
+    const journal =
+      parentJournal === null ? LavaFlow.findExistingJournal(filePath, journalName, parentFolder, destination) : null;
+
+    // A note the user deselected in the preview keeps whatever pages it already has, so links to it still resolve
+    if (!file.selected) {
+      const existingJournal = journal ?? parentJournal;
+      file.sections.forEach((section) => {
+        section.page =
+          existingJournal !== null ? LavaFlow.findPage(existingJournal, filePath, section.key, section.name) : null;
+      });
+      file.journalPage = file.sections[0]?.page ?? null;
+      return;
+    }
 
-    // Try to find journal by deterministic ID first, then by name
-    let journal = null;
-    if (!parentJournal) {
-      const deterministicId = generateJournalUUID(filePath);
-      // @ts-ignore - game global
-      journal = documentExists((game as Game).journal, deterministicId)
-        ? ((game as Game).journal?.get(deterministicId) as JournalEntry)
-        : null;
-
-      // Fallback to finding by name and folder if deterministic lookup fails
-      if (!journal) {
-        // @ts-ignore - game global
-        journal = ((game as Game).journal?.find(
-          (j: JournalEntry) => j.name === journalName && j.folder === parentFolder,
-        ) as JournalEntry);
+    // Unchanged notes were already pointed at their existing pages by markChangedFiles
+    if (!file.changed) return;
+
+    const finalJournal =
+      journal ??
+      parentJournal ??
+      (await LavaFlow.createJournal(journalName, parentFolder, settings.playerObserve, destination, filePath));
+    // The title may have changed in the frontmatter since the journal was created
+    if (parentJournal === null && finalJournal.name !== journalName) await finalJournal.update({ name: journalName });
+
+    const flags = { ...LavaFlow.getSourceFlags(file), ...LavaFlow.getMetadataFlags(file) };
+    for (const [index, section] of file.sections.entries()) {
+      const data: Record<string, unknown> = { name: section.name };
+      // The pages of a split note stay together, in order, at the note's place in the journal
+      if (file.sort !== null) data.sort = file.sort * CONST.SORT_INTEGER_DENSITY + index;
+
+      let journalPage = LavaFlow.findPage(finalJournal, filePath, section.key, section.name);
+      if (journalPage !== null && settings.overwrite) await LavaFlow.updateJournalPage(journalPage, section.content, flags, data);
+      else if (journalPage === null || (!settings.overwrite && !settings.ignoreDuplicate)) {
+        if (journalPage === null && index === 0) file.pageCreated = true;
+        const pageId = generatePageUUID(filePath, section.key);
+        journalPage = await LavaFlow.createJournalPage(section.name, section.content, finalJournal, pageId, flags, data);
       }
+      section.page = journalPage;
     }
 
-    const finalJournal = journal ?? parentJournal ?? (await LavaFlow.createJournal(journalName, parentFolder, settings.playerObserve, filePath));
+    const pages = file.sections.map((section) => section.page).filter((page) => page !== null);
+    await LavaFlow.applyOwnership(file, settings, finalJournal, pages, parentJournal !== null);
 
-    const { body, isPublic } = await LavaFlow.parseFrontmatterAndBody(file, settings);
+    file.journalPage = file.sections[0]?.page ?? null;
+  }
 
+  /**
+   * Finds the page a note (or one section of a split note) was imported as, by its deterministic ID or else by name.
+   * A journal can hold pages from several notes, so a page found by name must have come from this note, or from no
+   * note at all.
+   */
+  static findPage(
+    journal: JournalEntry,
+    filePath: string,
+    pageKey: string,
+    pageName: string = pageKey,
     // @ts-expect-error
-    let journalPage: JournalEntryPage = finalJournal.pages.find((p: JournalEntryPage) => p.name === pageName) ?? null;
-
-    if (journalPage !== null && settings.overwrite) await LavaFlow.updateJournalPage(journalPage, body);
-    else if (journalPage === null || (!settings.overwrite && !settings.ignoreDuplicate))
-      journalPage = await LavaFlow.createJournalPage(pageName, body, finalJournal, filePath);
+  ): JournalEntryPage | null {
+    // @ts-expect-error
+    const pages = journal.pages;
+    const isOwnPage = (p: any): boolean => {
+      const source = p.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.SOURCE) as SourceFlag | undefined;
+      return source === undefined || source.path === filePath;
+    };
+    return (
+      pages.get(generatePageUUID(filePath, pageKey)) ??
+      pages.find((p: any) => p.name === pageName && isOwnPage(p)) ??
+      null
+    );
+  }
 
-    // (Avoid flipping an entire combined-journal when combineNotes is on and parentJournal was provided.)
-    if (isPublic && parentJournal === null) {
-      await finalJournal.update({
-        // @ts-expect-error
-        ownership: { default: CONST.DOCUMENT_OWNERSHIP_LEVELS.OBSERVER }
-      });
-    } else if (!isPublic && parentJournal === null) {
-      await finalJournal.update({
-        // @ts-expect-error
-        ownership: { default: CONST.DOCUMENT_OWNERSHIP_LEVELS.NONE }
-      });
+  /**
+   * A note in its own journal sets the ownership of the journal. A note combined into a folder's journal sets the
+   * ownership of its page instead, so one journal can hold both secret and public pages, and the journal is opened up
+   * just enough (Limited) for players to reach any page they can see.
+   */
+  static async applyOwnership(
+    file: MDFileInfo,
+    settings: LavaFlowSettings,
+    journal: JournalEntry,
+    // @ts-expect-error
+    pages: JournalEntryPage[],
+    combined: boolean,
+  ): Promise<void> {
+    // @ts-expect-error
+    const levels = CONST.DOCUMENT_OWNERSHIP_LEVELS;
+    // Without ownership in the frontmatter, whatever was set in Foundry since the journal was created is kept
+    const ownership = file.ownership;
+    if (ownership === null) return;
+    const journalOwnership = (journal as any).ownership as Ownership;
+    // A note that names who can see it, without saying what everyone else gets, is hidden from everyone else
+    const namesUsers = Object.keys(ownership).some((userId) => userId !== 'default');
+    const hidden = namesUsers && ownership.default === undefined;
+    if (!combined) {
+      const defaultLevel = settings.playerObserve && !hidden ? levels.OBSERVER : levels.NONE;
+      await journal.update({ ownership: getOwnershipUpdate(journalOwnership, { default: defaultLevel, ...ownership }) });
+      return;
     }
+    if (pages.length < 1) return;
 
-    file.journalPage = journalPage;
+    // @ts-expect-error
+    await JournalEntryPage.updateDocuments(
+      pages.map((page) => ({
+        _id: page.id,
+        ownership: getOwnershipUpdate(page.ownership as Ownership, {
+          default: hidden ? levels.NONE : levels.INHERIT,
+          ...ownership,
+        }),
+      })),
+      { parent: journal },
+    );
+    const opened: Ownership = {};
+    Object.entries(ownership).forEach(([userId, level]) => {
+      const current = journalOwnership[userId] ?? journalOwnership.default ?? levels.NONE;
+      if (level > levels.NONE && current < levels.LIMITED) opened[userId] = levels.LIMITED;
+    });
+    if (Object.keys(opened).length > 0) await journal.update({ ownership: opened });
   }
 
+  static findExistingJournal(
+    filePath: string,
+    journalName: string,
+    parentFolder: Folder | null,
+    destination: ImportDestination,
+  ): JournalEntry | null {
+    // Try to find journal by deterministic ID first, then by name
+    const deterministicId = generateJournalUUID(filePath);
+    if (documentExists(destination.journals, deterministicId))
+      return destination.journals.get(deterministicId) as JournalEntry;
 
-  static async importOtherFile(
-    file: OtherFileInfo,
-    settings: LavaFlowSettings,
-    existingImagePaths: Map<string, string> = new Map(),
-  ): Promise<boolean> {
-    const source = settings.useS3 ? 's3' : 'data';
-    const body = settings.useS3 ? { bucket: settings.s3Bucket } : {};
-
-    // Check if file already exists in pre-scanned map
-    if (settings.skipDuplicateImages && existingImagePaths.has(file.originalFile.name)) {
-      file.uploadPath = existingImagePaths.get(file.originalFile.name)!;
+    // Fallback to finding by name and folder if deterministic lookup fails
+    return destination.journals.find((j: JournalEntry) => j.name === journalName && j.folder === parentFolder) ?? null;
+  }
+
+
+  static async importOtherFile(file: OtherFileInfo, media: MediaLibrary): Promise<boolean> {
+    // Already on the server, with the rest of a vault read from there
+    if (file.serverPath !== null) {
+      file.uploadPath = file.serverPath;
+      return true;
+    }
+
+    // Already uploaded with the same content, by this import or an earlier one
+    const target = await media.getTarget(file);
+    if (!target.upload) {
+      file.uploadPath = target.url ?? target.path;
       return true; // Skipped
     }
 
-    // Upload the file
-    const uploadResponse: any = await FilePicker.upload(source, settings.mediaFolder, file.originalFile, body);
-    if (uploadResponse?.path) file.uploadPath = decodeURI(uploadResponse.path);
+    // Deselected in the preview, so link to whatever is on the server already, if anything
+    if (!file.selected) {
+      file.uploadPath = target.url;
+      return true;
+    }
+
+    file.uploadPath = await media.upload(file, target.path);
     return false; // Not skipped
   }
 
-  static async getExistingImageFiles(settings: LavaFlowSettings): Promise<{ existingFiles: Map<string, string> }> {
-    const existingFiles = new Map<string, string>();
-    const source = settings.useS3 ? 's3' : 'data';
-    const body = settings.useS3 && settings.s3Bucket ? { bucket: settings.s3Bucket } : {};
-
-    try {
-      const browseResult: any = await FilePicker.browse(source, settings.mediaFolder, body);
-
-      if (browseResult?.files) {
-        for (const filePath of browseResult.files) {
-          const fileName = filePath.split('/').pop();
-          if (fileName) {
-            // Decode the filename to handle spaces and special characters
-            const decodedFileName = decodeURIComponent(fileName);
-            existingFiles.set(decodedFileName, decodeURI(filePath));
-          }
-        }
-      }
-    } catch (error: any) {
-      // If browse fails, folder might not exist yet - that's okay
-    }
+  /**
+   * Whether attachments are uploaded to the media folder. Those of a vault read from the server are already there.
+   */
+  static uploadsMedia(settings: LavaFlowSettings): boolean {
+    return settings.importNonMarkdown && settings.vaultSource === 'upload';
+  }
 
-    return { existingFiles };
+  /**
+   * Whether links to an attachment are pointed at a copy on the server. Attachments of a server vault always are.
+   */
+  static linksAttachment(file: OtherFileInfo, settings: LavaFlowSettings): boolean {
+    return file.serverPath !== null || settings.importNonMarkdown;
   }
 
   static async validateUploadLocation(settings: LavaFlowSettings): Promise<void> {
@@ -356,67 +973,117 @@ export default class LavaFlow {
     }
   }
 
+  /**
+   * Creates or updates the index journal, found by its deterministic ID, with a page for the whole tree of notes or one
+   * for each top-level group. Pages left over from an earlier layout or a group that no longer exists are deleted.
+   */
   static async createIndexFile(
     settings: LavaFlowSettings,
-    files: FileInfo[],
+    files: MDFileInfo[],
     rootFolder: Folder | null,
-  ): Promise<void> {
-    const indexJournalName = 'Index';
-    const indexJournal = (game as Game).journal?.find((j) => j.name === indexJournalName && j.folder === rootFolder);
-    const mdDictionary = files.filter((d) => d instanceof MDFileInfo);
-    const directories = [...new Set(mdDictionary.map((d) => LavaFlow.getIndexTopDirectory(d)))];
-    directories.sort();
-    let content = '';
-    for (let j = 0; j < directories.length; j++) {
-      content += `<h1>${directories[j]}</h1>`;
-      const journals = mdDictionary
-        .filter((d) => LavaFlow.getIndexTopDirectory(d) === directories[j])
-        .map((d) => d.journalPage);
-      content += `<ul>${journals.map((journal) => `<li>${journal?.link ?? ''}</li>`).join('\n')}</ul>`;
-    }
-    if (indexJournal != null) await LavaFlow.updateJournalPage(indexJournal, content);
-    else {
-      const journal = await LavaFlow.createJournal(indexJournalName, rootFolder, settings.playerObserve);
-      await LavaFlow.createJournalPage(indexJournalName, content, journal);
+    destination: ImportDestination,
+    report: ImportReport,
+  ): Promise<JournalEntry> {
+    const journalName = settings.indexJournalName.trim() !== '' ? settings.indexJournalName.trim() : 'Index';
+    const journalId = generateIndexJournalUUID(journalName, settings.rootFolderName);
+    const journal =
+      destination.journals.get(journalId) ??
+      (await LavaFlow.createJournal(journalName, rootFolder, settings.playerObserve, destination, undefined, journalId));
+
+    const tree = buildIndexTree(files, settings, (file, e) => report.error(file.getVaultPath(), e));
+    const pages = renderIndexPages(tree, settings, journalName);
+    const pageIds = new Set<string>();
+    for (let i = 0; i < pages.length; i++) {
+      const { key, name, content } = pages[i];
+      const pageId = generatePageUUID(journalId, key);
+      pageIds.add(pageId);
+      const data = { name, sort: (i + 1) * CONST.SORT_INTEGER_DENSITY };
+      // @ts-expect-error
+      const page = journal.pages.get(pageId);
+      if (page !== undefined) await LavaFlow.updateJournalPage(page, content, {}, data);
+      else await LavaFlow.createJournalPage(name, content, journal, pageId, {}, data);
     }
-  }
 
-  static getIndexTopDirectory(fileInfo: FileInfo): string {
-    return fileInfo.directories.length > 1 ? fileInfo.directories[1] : 'Uncatergorized';
+    // @ts-expect-error
+    const stale = journal.pages.filter((p: JournalEntryPage) => !pageIds.has(p.id)).map((p: JournalEntryPage) => p.id);
+    // @ts-expect-error
+    if (stale.length > 0) await JournalEntryPage.deleteDocuments(stale, { parent: journal });
+    return journal;
   }
 
-  static async createBacklinks(files: MDFileInfo[]): Promise<void> {
-    for (let i = 0; i < files.length; i++) {
-      const fileInfo = files[i];
-      if (fileInfo.journalPage === null) continue;
-      const backlinkFiles: MDFileInfo[] = [];
-      for (let j = 0; j < files.length; j++) {
-        if (j === i) continue;
-        const otherFileInfo = files[j];
-        const page = otherFileInfo.journalPage?.pages?.contents[0];
-        const link = fileInfo.getLink();
-        if (page !== undefined && page !== null && link !== null && (page.text.markdown as string).includes(link))
-          backlinkFiles.push(otherFileInfo);
-      }
-      if (backlinkFiles.length > 0) {
-        backlinkFiles.sort((a, b) => a.fileNameNoExt.localeCompare(b.fileNameNoExt));
-        const backLinkList = backlinkFiles.map((b) => `- ${b.getLink() ?? ''}`).join('\r\n');
-        const page = fileInfo.journalPage.pages.contents[0];
-        // TODO when v10 types are ready, this cast will be unecessary
-        const newText = `${page.text.markdown as string}\r\n#References\r\n${backLinkList}`;
-        page.update({ text: { markdown: newText } });
-      }
-    }
+  /**
+   * Creates or updates a journal listing every tag with links to the pages that carry it, on a page found by its
+   * deterministic ID so renaming it does not add another.
+   */
+  static async createTagIndex(
+    settings: LavaFlowSettings,
+    files: MDFileInfo[],
+    rootFolder: Folder | null,
+    destination: ImportDestination,
+  ): Promise<JournalEntry> {
+    const journalName = 'Tags';
+    const pagesByTag = new Map<string, MDFileInfo[]>();
+    files
+      .filter((file) => file.journalPage !== null)
+      .forEach((file) => file.tags.forEach((tag) => pagesByTag.set(tag, [...(pagesByTag.get(tag) ?? []), file])));
+
+    const tags = [...pagesByTag.keys()].sort((a, b) => a.localeCompare(b));
+    const content = tags
+      .map((tag) => {
+        const tagged = (pagesByTag.get(tag) ?? []).sort((a, b) => a.title.localeCompare(b.title));
+        return `# ${tag}\n\n${tagged.map((file) => `- ${file.getLink() ?? ''}`).join('\n')}`;
+      })
+      .join('\n\n');
+
+    const journalId = generateIndexJournalUUID(journalName, settings.rootFolderName);
+    const journal =
+      destination.journals.get(journalId) ??
+      (await LavaFlow.createJournal(journalName, rootFolder, settings.playerObserve, destination, undefined, journalId));
+    const pageId = generatePageUUID(journalId, journalName);
+    // Pages made before they had a deterministic ID are found by name
+    // @ts-expect-error
+    const page = journal.pages.get(pageId) ?? journal.pages.find((p: JournalEntryPage) => p.name === journalName);
+    if (page !== undefined) await LavaFlow.updateJournalPage(page, content);
+    else await LavaFlow.createJournalPage(journalName, content, journal, pageId);
+    return journal;
   }
 
-  static linkMatch(fileInfo: FileInfo, matchFileInfo: FileInfo): boolean {
-    if (matchFileInfo !== fileInfo && matchFileInfo instanceof MDFileInfo) {
-      const linkPatterns = fileInfo.getLinkRegex();
-      for (let i = 0; i < linkPatterns.length; i++) {
-        if (matchFileInfo.links.filter((l) => l.match(linkPatterns[i])).length > 0) return true;
+  /**
+   * Rewrites the backlinks section at the end of every imported note from the link graph of the whole vault, so notes
+   * that did not change still list new links to them. With backlinks turned off, the sections are removed. Pages are
+   * only written when their section changed.
+   */
+  static async createBacklinks(
+    files: MDFileInfo[],
+    resolver: LinkResolver,
+    settings: LavaFlowSettings,
+    report: ImportReport,
+  ): Promise<void> {
+    const onError = (file: MDFileInfo, e: any): void => report.error(file.getVaultPath(), e);
+    const backlinks = settings.createBacklinks
+      ? findBacklinks(files, resolver, settings.backlinkUnlinkedMentions, onError)
+      : null;
+    const updates = new Map<JournalEntry, Array<Record<string, unknown>>>();
+    files.forEach((file) => {
+      // The section goes at the end of the note, which for a split note is its last page
+      const page = file.sections.map((section) => section.page).filter((p) => p !== null).pop();
+      if (page === undefined || !file.selected) return;
+      try {
+        // @ts-expect-error
+        const field = page.text.format === CONST.JOURNAL_ENTRY_PAGE_FORMATS.HTML ? 'content' : 'markdown';
+        const text = (page.text[field] as string | null) ?? '';
+        const section = backlinks !== null ? renderBacklinks(backlinks.get(file) as NoteBacklinks) : '';
+        const newText = replaceBacklinks(text, section);
+        if (newText === text) return;
+        updates.set(page.parent, [...(updates.get(page.parent) ?? []), { _id: page.id, [`text.${field}`]: newText }]);
+      } catch (e: any) {
+        onError(file, e);
       }
+    });
+    for (const [journal, journalUpdates] of updates) {
+      // @ts-expect-error
+      await JournalEntryPage.updateDocuments(journalUpdates, { parent: journal });
     }
-    return false;
   }
 
   static decodeHtml(html: string): string {
@@ -429,18 +1096,20 @@ export default class LavaFlow {
     journalName: string,
     parentFolder: Folder | null,
     playerObserve: boolean,
+    destination: ImportDestination,
     filePath?: string,
+    journalId?: string,
   ): Promise<JournalEntry> {
     // Generate deterministic UUID if file path is provided
-    let deterministicId: string | undefined;
-    if (filePath) {
-      deterministicId = generateJournalUUID(filePath);
+    const deterministicId =
+      journalId ?? (filePath !== undefined && filePath !== '' ? generateJournalUUID(filePath) : undefined);
+    if (deterministicId !== undefined) {
       console.log(`Lava Flow | createJournal called for "${journalName}" with deterministic ID: ${deterministicId}`);
 
       // Check if a journal with this ID already exists
-      if (documentExists((game as Game).journal, deterministicId)) {
+      if (documentExists(destination.journals, deterministicId)) {
         console.log(`Lava Flow | Journal already exists with ID: ${deterministicId}`);
-        return (game as Game).journal?.get(deterministicId) as JournalEntry;
+        return destination.journals.get(deterministicId) as JournalEntry;
       }
     } else {
       console.log(`Lava Flow | createJournal called for "${journalName}" WITHOUT file path - will use random ID`);
@@ -456,7 +1125,7 @@ export default class LavaFlow {
 
     console.log(`Lava Flow | Creating journal with data:`, { ...entryData, _id: entryData._id || 'RANDOM' });
 
-    const entry = (await JournalEntry.create(entryData, { keepId: true })) ?? new JournalEntry();
+    const entry = (await JournalEntry.create(entryData, { keepId: true, ...destination.options })) ?? new JournalEntry();
     console.log(`Lava Flow | Created journal "${journalName}" with actual ID: ${entry.id}`);
     await entry.setFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.JOURNAL, true);
     return entry;
@@ -466,13 +1135,11 @@ export default class LavaFlow {
     pageName: string,
     content: string,
     journalEntry: JournalEntry,
-    filePath?: string,
+    deterministicId?: string,
+    flags: Record<string, unknown> = {},
+    data: Record<string, unknown> = {},
   ): Promise<JournalEntry> {
-    // Generate deterministic UUID if file path is provided
-    let deterministicId: string | undefined;
-    if (filePath) {
-      deterministicId = generatePageUUID(filePath, pageName);
-
+    if (deterministicId) {
       // Check if a page with this ID already exists in this journal
       // @ts-expect-error
       const existingPage = journalEntry.pages?.get(deterministicId);
@@ -486,8 +1153,10 @@ export default class LavaFlow {
       {
         ...(deterministicId && { _id: deterministicId }),
         name: pageName,
+        ...data,
         // @ts-expect-error
         text: { markdown: content, format: CONST.JOURNAL_ENTRY_PAGE_FORMATS.MARKDOWN },
+        flags: { [LavaFlow.FLAGS.SCOPE]: flags },
       },
       { parent: journalEntry, keepId: true },
     );
@@ -495,90 +1164,73 @@ export default class LavaFlow {
     return page;
   }
 
-  // @ts-expect-error
-  static async updateJournalPage(page: JournalEntryPage, content: string, ): Promise<void> {
+  static async updateJournalPage(
+    // @ts-expect-error
+    page: JournalEntryPage,
+    content: string,
+    flags: Record<string, unknown> = {},
+    data: Record<string, unknown> = {},
+  ): Promise<void> {
     if (page === undefined || page === null) return;
-    await page.update({ text: { markdown: content } });
+    // Flags are merged into the page's existing ones, so properties removed from the frontmatter have to be cleared
+    if (LavaFlow.FLAGS.FRONTMATTER in flags && page.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.FRONTMATTER) !== undefined)
+      await page.unsetFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.FRONTMATTER);
+    await page.update({ ...data, text: { markdown: content }, flags: { [LavaFlow.FLAGS.SCOPE]: flags } });
   }
 
+  /**
+   * Splits a note into its frontmatter properties and the markdown that goes into its page. Frontmatter that cannot
+   * be read is added to the report and the note is imported as if it had none.
+   */
   static async parseFrontmatterAndBody(
     file: FileInfo,
-    settings?: LavaFlowSettings
-  ): Promise<{ body: string; isPublic: boolean; frontmatter: Record<string, any> }> {
-    let raw = await file.originalFile.text();
-
-    // Grab YAML frontmatter block if present
-    const fmMatch = raw.match(/^---\r?\n([\s\S]*?)\r?\n---(\r?\n)?/);
+    settings?: LavaFlowSettings,
+    report?: ImportReport,
+  ): Promise<{ body: string; frontmatter: Record<string, any> }> {
+    const { yaml, body: markdown } = splitFrontmatter(await file.originalFile.text());
     let frontmatter: Record<string, any> = {};
-    let isPublic = false;
-
-    if (fmMatch) {
+    if (yaml !== null) {
       try {
-        const yaml = fmMatch[1];
-        // super-lightweight YAML-ish parse to avoid extra deps
-        yaml.split(/\r?\n/).forEach((line) => {
-          const m = line.match(/^\s*([A-Za-z0-9_-]+)\s*:\s*(.*)\s*$/);
-          if (!m) return;
-          const key = m[1].toLowerCase();
-          let val: any = m[2].trim();
-          if (/^true$/i.test(val.toLowerCase())) val = true;
-          else if (/^false$/i.test(val.toLowerCase())) val = false;
-          else if (/^['"].*['"]$/.test(val)) val = val.slice(1, -1);
-          frontmatter[key] = val;
-        });
+        frontmatter = parseFrontmatter(yaml);
       } catch (e) {
-        console.warn(`Lava Flow | Error parsing YAML frontmatter in file ${file.originalFile.name}: ${e}`);
+        if (!(e instanceof FrontmatterError)) throw e;
+        if (report !== undefined) report.warn(file.getVaultPath(), `The frontmatter could not be read: ${e.message}`);
+        else console.warn(`Lava Flow | Error parsing YAML frontmatter in file ${file.originalFile.name}: ${e.message}`);
       }
-
-      isPublic = frontmatter['public'] === true || String(frontmatter['visibility']).toLowerCase() === 'public';
     }
 
-    // Now produce the body exactly like your current logic
-    // strip YAML frontmatter
-    let body = raw.replace(/^---\r?\n([\s\S]*?)\r?\n---(\r?\n)?/, '');
-
-    // optionally strip DM-only callout blocks (> [!dm] format)
-    if (settings?.stripObsidianComments) {
-      // Match callout blocks: > [!dm] followed by lines starting with >
-      body = body.replace(/^> \[!dm\].*$(\r?\n^>.*$)*/gm, '');
-    }
+    let body = convertDMBlocks(markdown, settings?.dmBlocks ?? 'keep');
+    body = convertCallouts(body);
+    body = convertBlockReferences(body);
 
     // keep your existing heading tweak
     body = body.replace(/^#[0-9A-Za-z]+\b/gm, ' $&');
 
-    return { body, isPublic, frontmatter };
+    return { body, frontmatter };
   }
 
-  // @ts-expect-error
-  static async updateLinks(fileInfo: FileInfo, allPages: JournalEntryPage[]): Promise<void> {
-    const linkPatterns = fileInfo.getLinkRegex();
-    for (let i = 0; i < allPages.length; i++) {
-      const comparePage = allPages[i];
-
-      for (let j = 0; j < linkPatterns.length; j++) {
-        const pattern = linkPatterns[j];
-        const linkMatches = (comparePage.text.markdown as string).matchAll(pattern);
-        if (linkMatches === null) continue;
-        for (const linkMatch of linkMatches) {
-          const alias = (linkMatch[2] ?? '|').split('|')[1].trim();
-          let link = fileInfo.getLink(alias);
-          if (link === null) continue;
-          if (fileInfo instanceof OtherFileInfo) {
-            const resizeMatches = linkMatch[0].match(/\|\d+(x\d+)?\]/gi);
-            if (resizeMatches !== null && resizeMatches.length > 0) {
-              const dimensions = resizeMatches[0]
-                .replace(/(\||\])/gi, '')
-                .toLowerCase()
-                .split('x');
-              if (dimensions.length === 1) dimensions.push('*');
-              const dimensionsString = dimensions.join('x');
-              link = link.replace(/\)$/gi, ` =${dimensionsString})`);
-            }
-          }
-          const newContent = comparePage.text.markdown.replace(linkMatch[0], link);
-          await LavaFlow.updateJournalPage(allPages[i], newContent);
+  /**
+   * Rewrites the Obsidian links in each page, writing every page at most once with one batched update per journal.
+   */
+  static async updateLinks(resolver: LinkResolver, files: MDFileInfo[], report: ImportReport): Promise<void> {
+    const updates = new Map<JournalEntry, Array<Record<string, unknown>>>();
+    files.forEach((file) =>
+      file.sections.forEach(({ page }) => {
+        if (page === null) return;
+        // A page whose links cannot be resolved keeps them as they are
+        try {
+          const markdown = page.text.markdown as string;
+          const newMarkdown = resolver.rewrite(markdown, file, report);
+          if (newMarkdown === markdown) return;
+          updates.set(page.parent, [...(updates.get(page.parent) ?? []), { _id: page.id, 'text.markdown': newMarkdown }]);
+        } catch (e: any) {
+          report.error(file.getVaultPath(), e);
         }
-      }
+      }),
+    );
+    for (const [journal, journalUpdates] of updates) {
+      // @ts-expect-error
+      await JournalEntryPage.updateDocuments(journalUpdates, { parent: journal });
     }
   }
 
@@ -599,3 +1251,11 @@ export default class LavaFlow {
     ])
   }
 }
+
+export interface SourceFlag {
+  path: string;
+  hash: string;
+  mtime: number;
+  // Missing on pages imported before notes could be split, which were never split
+  split?: number;
+}
@@ -0,0 +1,269 @@
+import { FileInfo, MDFileInfo, OtherFileInfo } from './file-info.js';
+import { ImportReport } from './import-report.js';
+import { escapeHtml } from './util.js';
+import { extractBlock, extractSection, stripBlockAnchors } from './markdown-transforms.js';
+
+/**
+ * A wikilink, embed or markdown image found in a note.
+ */
+export interface ObsidianLink {
+  // The full text of the link as it appears in the note
+  text: string;
+  embed: boolean;
+  // The path or name being linked to, without any #heading or |alias
+  target: string;
+  fragment: string | null;
+  alias: string | null;
+  // Markdown images (![alt](path)) are only resolved against non-markdown files
+  markdownImage: boolean;
+}
+
+const LINK_PATTERN = /(!?)\[\[([^\]]+?)\]\]|!\[([^\]]*)\]\(([^)]+)\)/g;
+
+function decodePath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch (e) {
+    return path;
+  }
+}
+
+function parseLink(match: RegExpMatchArray): ObsidianLink {
+  if (match[2] === undefined) {
+    return {
+      text: match[0],
+      embed: true,
+      target: decodePath(match[4].trim()).replace(/^\.\//, ''),
+      fragment: null,
+      alias: match[3],
+      markdownImage: true,
+    };
+  }
+
+  const inner = match[2];
+  const pipeIndex = inner.indexOf('|');
+  // Inside tables the pipe has to be escaped as \|
+  const targetPart = (pipeIndex > -1 ? inner.slice(0, pipeIndex) : inner).replace(/\\$/, '');
+  const hashIndex = targetPart.indexOf('#');
+  return {
+    text: match[0],
+    embed: match[1] === '!',
+    target: (hashIndex > -1 ? targetPart.slice(0, hashIndex) : targetPart).trim(),
+    fragment: hashIndex > -1 ? targetPart.slice(hashIndex + 1).trim() : null,
+    alias: pipeIndex > -1 ? inner.slice(pipeIndex + 1).trim() : null,
+    markdownImage: false,
+  };
+}
+
+/**
+ * Finds every link in a note in a single pass.
+ */
+export function tokenizeLinks(markdown: string): ObsidianLink[] {
+  return [...markdown.matchAll(LINK_PATTERN)].map((m) => parseLink(m));
+}
+
+/**
+ * Resolves Obsidian links against the imported files using an index of every key each file can be linked by.
+ */
+export class LinkResolver {
+  static MAX_EMBED_DEPTH = 5;
+
+  private readonly keyIndex = new Map<string, FileInfo[]>();
+  // Frontmatter aliases are only used when no file matches, the same as in Obsidian
+  private readonly aliasIndex = new Map<string, FileInfo[]>();
+
+  constructor(files: FileInfo[]) {
+    files.forEach((file) => file.keys.forEach((key) => LinkResolver.addKey(this.keyIndex, key, file)));
+  }
+
+  private static addKey(index: Map<string, FileInfo[]>, key: string, file: FileInfo): void {
+    const normalized = LinkResolver.normalizeKey(key);
+    const files = index.get(normalized) ?? [];
+    if (!files.includes(file)) files.push(file);
+    index.set(normalized, files);
+  }
+
+  /**
+   * Lets notes be linked by their frontmatter aliases. Aliases that are also the name of a file are reported, since
+   * links to them go to that file instead.
+   */
+  addAliases(files: MDFileInfo[], report: ImportReport): void {
+    files.forEach((file) =>
+      file.aliases.forEach((alias) => {
+        const conflicts = this.keyIndex.get(LinkResolver.normalizeKey(alias))?.filter((f) => f !== file) ?? [];
+        if (conflicts.length > 0) {
+          const paths = conflicts.map((f) => f.getVaultPath()).join(', ');
+          report.warn(
+            file.getVaultPath(),
+            `The alias "${alias}" is also the name of ${paths}, so links to it go there.`,
+          );
+        }
+        LinkResolver.addKey(this.aliasIndex, alias, file);
+      }),
+    );
+  }
+
+  static normalizeKey(key: string): string {
+    return key.trim().toLowerCase();
+  }
+
+  /**
+   * Every imported file the link could refer to. Only embeds can point at images and other attachments, and markdown
+   * images only point at attachments.
+   */
+  getCandidates(link: ObsidianLink): FileInfo[] {
+    return this.lookup(link).candidates;
+  }
+
+  private lookup(link: ObsidianLink): { candidates: FileInfo[]; viaAlias: boolean } {
+    const linkable = (file: FileInfo): boolean =>
+      (file instanceof MDFileInfo && !link.markdownImage) || (file instanceof OtherFileInfo && link.embed);
+    const candidates = (
+      this.keyIndex.get(LinkResolver.normalizeKey(link.target)) ??
+      this.keyIndex.get(LinkResolver.normalizeKey(link.target.replace(/\.md$/i, ''))) ??
+      []
+    ).filter(linkable);
+    if (candidates.length > 0) return { candidates, viaAlias: false };
+    return {
+      candidates: (this.aliasIndex.get(LinkResolver.normalizeKey(link.target)) ?? []).filter(linkable),
+      viaAlias: true,
+    };
+  }
+
+  resolve(link: ObsidianLink, from: FileInfo | null = null): FileInfo | null {
+    return LinkResolver.pick(this.getCandidates(link), from).file;
+  }
+
+  /**
+   * Chooses between candidates the way Obsidian does: the file with the shortest path wins, then the one closest to
+   * the linking note. Anything still tied is ambiguous and the first by path is used.
+   */
+  private static pick(candidates: FileInfo[], from: FileInfo | null): { file: FileInfo | null; ambiguous: boolean } {
+    if (candidates.length < 2) return { file: candidates[0] ?? null, ambiguous: false };
+
+    const depth = (file: FileInfo): number => file.getVaultPath().split('/').length;
+    const minDepth = Math.min(...candidates.map(depth));
+    let best = candidates.filter((file) => depth(file) === minDepth);
+
+    if (best.length > 1 && from !== null) {
+      const fromDirectories = from.getVaultPath().split('/').slice(0, -1);
+      const proximity = (file: FileInfo): number => {
+        const directories = file.getVaultPath().split('/').slice(0, -1);
+        let shared = 0;
+        while (shared < directories.length && directories[shared] === fromDirectories[shared]) shared++;
+        return shared;
+      };
+      const maxProximity = Math.max(...best.map(proximity));
+      best = best.filter((file) => proximity(file) === maxProximity);
+    }
+
+    best.sort((a, b) => a.getVaultPath().localeCompare(b.getVaultPath()));
+    return { file: best[0], ambiguous: best.length > 1 };
+  }
+
+  /**
+   * Replaces every link in the markdown with its Foundry equivalent. Links that are ambiguous or do not resolve to any
+   * imported file are added to the report, and unresolved ones are rendered as plain text.
+   */
+  rewrite(markdown: string, from: FileInfo, report: ImportReport, embedStack: string[] = []): string {
+    const fromPath = from.getVaultPath();
+    return markdown.replace(LINK_PATTERN, (...match) => {
+      let link = parseLink(match as RegExpMatchArray);
+      const { candidates, viaAlias } = this.lookup(link);
+      // A link made through an alias shows the alias, as written, rather than the name of the note
+      if (viaAlias && link.alias === null) link = { ...link, alias: link.target };
+      const { file, ambiguous } = LinkResolver.pick(candidates, from);
+
+      if (ambiguous && file !== null) {
+        const paths = candidates.map((c) => c.getVaultPath()).join(', ');
+        report.warn(fromPath, `${link.text} is ambiguous between ${paths}. Linked to ${file.getVaultPath()}.`);
+      }
+
+      if (file === null) {
+        // External images are not vault links
+        if (link.markdownImage) return link.text;
+        report.warn(fromPath, `${link.text} does not match any imported file.`);
+        return LinkResolver.getUnresolvedText(link);
+      }
+
+      if (link.embed && file instanceof MDFileInfo) {
+        const embedded = this.embed(file, link, from, report, embedStack);
+        if (embedded !== null) return embedded;
+      }
+
+      const text = LinkResolver.getLinkText(file, link);
+      if (text !== null) return text;
+      // A note with no page, e.g. one left out in the preview or that failed to import, is shown like any other
+      // unresolved link. Attachments that were not uploaded keep their Obsidian syntax.
+      if (!(file instanceof MDFileInfo)) return link.text;
+      report.warn(fromPath, `${link.text} points at ${file.getVaultPath()}, which has no page, so it was not linked.`);
+      return LinkResolver.getUnresolvedText(link);
+    });
+  }
+
+  /**
+   * Inlines the embedded note, or just the heading section or block the embed points at, with its own links resolved
+   * and a link back to where it came from. Returns null when the embed should fall back to a plain link.
+   */
+  private embed(
+    file: MDFileInfo,
+    link: ObsidianLink,
+    from: FileInfo,
+    report: ImportReport,
+    embedStack: string[],
+  ): string | null {
+    const fromPath = from.getVaultPath();
+    const embedKey = `${file.getVaultPath()}#${link.fragment ?? ''}`;
+    // The note being imported counts as embedded in full, so a note can still embed its own sections
+    const stack = embedStack.length > 0 ? embedStack : [`${fromPath}#`];
+    if (stack.includes(embedKey)) {
+      report.warn(fromPath, `${link.text} embeds itself, so it was linked instead.`);
+      return null;
+    }
+    if (stack.length > LinkResolver.MAX_EMBED_DEPTH) {
+      report.warn(
+        fromPath,
+        `${link.text} is nested more than ${LinkResolver.MAX_EMBED_DEPTH} embeds deep, so it was linked instead.`,
+      );
+      return null;
+    }
+
+    let content: string | null = file.body;
+    const target = link.fragment?.split('#').pop()?.trim() ?? '';
+    if (content !== null && target.startsWith('^')) content = extractBlock(content, target.slice(1));
+    else if (content !== null && target !== '') content = extractSection(content, target);
+    if (content === null) {
+      report.warn(fromPath, `${link.text} points at a section that does not exist, so it was linked instead.`);
+      return null;
+    }
+
+    const inlined = this.rewrite(stripBlockAnchors(content), file, report, [...stack, embedKey]);
+    const source = file.getLink(null, link.fragment);
+    return [
+      '',
+      '<div class="lava-flow-embed" markdown="1">',
+      '',
+      inlined.trim(),
+      '',
+      source !== null ? `<p class="lava-flow-embed-source"><i class="fas fa-file-import"></i> ${source}</p>` : '',
+      '</div>',
+      '',
+    ].join('\n');
+  }
+
+  static getUnresolvedText(link: ObsidianLink): string {
+    const display = link.alias ?? (link.fragment !== null ? `${link.target} > ${link.fragment}` : link.target);
+    return `<span class="lava-flow-unresolved" title="Unresolved link: ${escapeHtml(link.target)}">${escapeHtml(display)}</span>`;
+  }
+
+  static getLinkText(file: FileInfo, link: ObsidianLink): string | null {
+    if (file instanceof MDFileInfo) return file.getLink(link.alias, link.fragment);
+
+    let text = file.getLink();
+    if (text === null) return null;
+    const dimensions = link.markdownImage ? null : link.alias?.match(/^(\d+)(?:x(\d+))?$/i);
+    if (dimensions !== null && dimensions !== undefined)
+      text = text.replace(/\)$/gi, ` =${dimensions[1]}x${dimensions[2] ?? '*'})`);
+    return text;
+  }
+}
@@ -0,0 +1,409 @@
+import { hashText } from './content-hash.js';
+import { DMBlockMode } from './lava-flow-settings.js';
+import { escapeHtml, unescapeHtml } from './util.js';
+
+/**
+ * Import-time conversions of Obsidian-specific markdown into something Foundry can render.
+ */
+
+const BLOCK_ID_PATTERN = /\s\^([A-Za-z0-9-]+)\s*$/;
+const OWN_LINE_BLOCK_ID_PATTERN = /^\s*\^([A-Za-z0-9-]+)\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+// Leading markdown that belongs before an anchor, e.g. list bullets or blockquote markers
+const LINE_PREFIX_PATTERN = /^(\s*(?:>\s*)*(?:[-*+]\s+(?:\[.\]\s+)?|\d+[.)]\s+)?)/;
+
+/**
+ * The anchor Foundry gives a heading, so links can jump to it.
+ */
+export function getHeadingAnchor(heading: string): string {
+  // @ts-expect-error
+  return JournalEntryPage.slugifyHeading(heading);
+}
+
+export function getBlockAnchor(blockId: string): string {
+  return `block-${blockId.toLowerCase()}`;
+}
+
+/**
+ * Gets the anchor for the fragment of a link, e.g. "Heading", "Parent#Child" or "^block-id".
+ */
+export function getFragmentAnchor(fragment: string): string {
+  const target = fragment.split('#').pop()?.trim() ?? '';
+  return target.startsWith('^') ? getBlockAnchor(target.slice(1)) : getHeadingAnchor(target);
+}
+
+function blockAnchor(blockId: string): string {
+  return `<span id="${getBlockAnchor(blockId)}" data-lava-flow-block></span>`;
+}
+
+/**
+ * Replaces Obsidian block IDs (a trailing "^block-id") with an anchor at the start of the block they mark, so block
+ * reference links can jump to it. A block ID on its own line marks the block above it and becomes an anchor in place.
+ */
+export function convertBlockReferences(body: string): string {
+  const lines = body.split('\n');
+  let inFence = false;
+  let blockStart = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    if (inFence) continue;
+    if (line.trim() === '') {
+      blockStart = i + 1;
+      continue;
+    }
+
+    const ownLine = line.match(OWN_LINE_BLOCK_ID_PATTERN);
+    if (ownLine !== null) {
+      // Kept apart from the block above so it cannot become part of a table or list
+      lines[i] = `\n${blockAnchor(ownLine[1])}`;
+      continue;
+    }
+
+    const trailing = line.match(BLOCK_ID_PATTERN);
+    if (trailing === null) continue;
+    lines[i] = line.replace(BLOCK_ID_PATTERN, '');
+    // List items are their own blocks, everything else anchors to the first line of the paragraph
+    const start = LINE_PREFIX_PATTERN.exec(lines[i])?.[1].trim() !== '' ? i : blockStart;
+    const prefix = LINE_PREFIX_PATTERN.exec(lines[start])?.[1] ?? '';
+    lines[start] = `${prefix}${blockAnchor(trailing[1])}${lines[start].slice(prefix.length)}`;
+  }
+  return lines.join('\n');
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BLOCK_ANCHOR_PATTERN = /<span id="block-[^"]*" data-lava-flow-block><\/span>/g;
+
+/**
+ * Gets the section under a heading, down to the next heading of the same or a higher level. Returns null if the
+ * heading is not in the body.
+ */
+export function extractSection(body: string, heading: string): string | null {
+  const anchor = getHeadingAnchor(heading);
+  const lines = body.split('\n');
+  let inFence = false;
+  let start = -1;
+  let level = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) inFence = !inFence;
+    const match = inFence ? null : lines[i].match(HEADING_PATTERN);
+    if (match === null) continue;
+    if (start > -1 && match[1].length <= level) return lines.slice(start, i).join('\n');
+    if (start < 0 && getHeadingAnchor(match[2]) === anchor) {
+      start = i;
+      level = match[1].length;
+    }
+  }
+  return start > -1 ? lines.slice(start).join('\n') : null;
+}
+
+/**
+ * Gets the block a block ID was attached to by convertBlockReferences. Returns null if the ID is not in the body.
+ */
+export function extractBlock(body: string, blockId: string): string | null {
+  const lines = body.split('\n');
+  const index = lines.findIndex((line) => line.includes(`id="${getBlockAnchor(blockId)}"`));
+  if (index < 0) return null;
+
+  let start = index;
+  let end = index;
+  if (lines[index].replace(BLOCK_ANCHOR_PATTERN, '').trim() === '') {
+    // An anchor on its own line follows the block it marks
+    end = index - 1;
+    while (end > 0 && lines[end].trim() === '') end--;
+    start = end;
+    while (start > 0 && lines[start - 1].trim() !== '') start--;
+  } else if (LINE_PREFIX_PATTERN.exec(lines[index])?.[1].trim() === '') {
+    while (end < lines.length - 1 && lines[end + 1].trim() !== '') end++;
+  }
+  return lines.slice(start, end + 1).join('\n');
+}
+
+export function stripBlockAnchors(body: string): string {
+  return body.replace(BLOCK_ANCHOR_PATTERN, '');
+}
+
+// Foundry writes the empty attribute out in full once a page has been converted to HTML
+const SAVED_BLOCK_ANCHOR_PATTERN = /<span id="block-([^"]*)" data-lava-flow-block(?:="")?><\/span>/;
+
+/**
+ * Turns the anchors added by convertBlockReferences back into Obsidian block IDs, at the end of the list item or
+ * paragraph they mark. An anchor on its own line goes back under the block above it.
+ */
+export function restoreBlockReferences(body: string): string {
+  const lines = body.split('\n');
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) inFence = !inFence;
+    if (inFence) continue;
+    let match = lines[i].match(SAVED_BLOCK_ANCHOR_PATTERN);
+    while (match !== null) {
+      const blockId = `^${match[1]}`;
+      lines[i] = lines[i].replace(match[0], '');
+      if (lines[i].trim() === '') {
+        lines[i] = blockId;
+        // The blank line that kept the anchor apart from the block would leave the ID marking nothing
+        if (i > 0 && lines[i - 1].trim() === '') lines.splice(--i, 1);
+      } else {
+        let end = i;
+        if (LINE_PREFIX_PATTERN.exec(lines[i])?.[1].trim() === '')
+          while (end + 1 < lines.length && lines[end + 1].trim() !== '') end++;
+        lines[end] = `${lines[end].trimEnd()} ${blockId}`;
+      }
+      match = lines[i].match(SAVED_BLOCK_ANCHOR_PATTERN);
+    }
+  }
+  return lines.join('\n');
+}
+
+const CODE_FENCE_BLOCK_PATTERN = /^[ \t]*(```|~~~)[\s\S]*?^[ \t]*\1.*$/gm;
+const DM_CALLOUT_PATTERN = /^>[ \t]*\[!dm\][+-]?[ \t]*(.*)$((?:\r?\n>.*$)*)/gim;
+const DM_FENCE_PATTERN = /:::dm\b[ \t]*(?:\r?\n)?([\s\S]*?)(?:\r?\n)?[ \t]*:::/gi;
+
+/**
+ * Applies a transform to everything in the body except fenced code blocks.
+ */
+function outsideCodeFences(body: string, transform: (text: string) => string): string {
+  let result = '';
+  let last = 0;
+  for (const match of body.matchAll(CODE_FENCE_BLOCK_PATTERN)) {
+    result += transform(body.slice(last, match.index)) + match[0];
+    last = (match.index ?? 0) + match[0].length;
+  }
+  return result + transform(body.slice(last));
+}
+
+/**
+ * Handles DM-only content, written either as a `> [!dm]` callout or a `:::dm ... :::` block (which may start part way
+ * through a line). Blocks are left as they are, removed, or turned into Foundry secret sections that only owners of
+ * the page can see and reveal.
+ */
+export function convertDMBlocks(body: string, mode: DMBlockMode): string {
+  if (mode === 'keep') return body;
+
+  let secretCount = 0;
+  const replace = (content: string): string => {
+    if (mode === 'strip') return '';
+    // Foundry needs an ID to reveal a secret, and a stable one keeps re-imports of unchanged notes identical
+    const id = `secret-${hashText(`${secretCount++}:${content}`).split('-')[0]}`;
+    return `\n\n<section class="secret" id="${id}" markdown="1">\n\n${content.trim()}\n\n</section>\n\n`;
+  };
+
+  return outsideCodeFences(body, (text) =>
+    text
+      .replace(DM_CALLOUT_PATTERN, (_match, title: string, lines: string) => {
+        const content = lines.replace(/^\r?\n>[ \t]?/, '').replace(/\r?\n>[ \t]?/g, '\n');
+        return replace(title.trim() !== '' ? `**${title.trim()}**\n\n${content}` : content);
+      })
+      .replace(DM_FENCE_PATTERN, (_match, content: string) => replace(content)),
+  );
+}
+
+const CALLOUT_PATTERN = /^[ \t]*>[ \t]*\[!([^\]\s]+)\]([+-]?)[ \t]*(.*)$/;
+const QUOTE_LINE_PATTERN = /^[ \t]*>/;
+
+// Obsidian's callout types, with their Font Awesome icons and the other names that share their look
+const CALLOUT_TYPES: Record<string, { icon: string; aliases: string[] }> = {
+  note: { icon: 'fa-pencil-alt', aliases: [] },
+  abstract: { icon: 'fa-clipboard-list', aliases: ['summary', 'tldr'] },
+  info: { icon: 'fa-info-circle', aliases: [] },
+  todo: { icon: 'fa-check-circle', aliases: [] },
+  tip: { icon: 'fa-fire', aliases: ['hint', 'important'] },
+  success: { icon: 'fa-check', aliases: ['check', 'done'] },
+  question: { icon: 'fa-question-circle', aliases: ['help', 'faq'] },
+  warning: { icon: 'fa-exclamation-triangle', aliases: ['caution', 'attention'] },
+  failure: { icon: 'fa-times', aliases: ['fail', 'missing'] },
+  danger: { icon: 'fa-bolt', aliases: ['error'] },
+  bug: { icon: 'fa-bug', aliases: [] },
+  example: { icon: 'fa-list', aliases: [] },
+  quote: { icon: 'fa-quote-left', aliases: ['cite'] },
+};
+
+function getCalloutType(type: string): string {
+  const name = type.toLowerCase();
+  if (name in CALLOUT_TYPES) return name;
+  // Custom callout types look like notes
+  return Object.keys(CALLOUT_TYPES).find((key) => CALLOUT_TYPES[key].aliases.includes(name)) ?? 'note';
+}
+
+function getDefaultCalloutTitle(type: string): string {
+  return type.charAt(0).toUpperCase() + type.slice(1).toLowerCase();
+}
+
+function renderCallout(type: string, fold: string, title: string, content: string): string {
+  const calloutType = getCalloutType(type);
+  const heading = title.trim() !== '' ? title.trim() : getDefaultCalloutTitle(type);
+  // Custom types and aliases look like the type they share, but are kept so the note can be exported as written
+  const typeName = type.toLowerCase() !== calloutType ? ` data-callout-type="${escapeHtml(type)}"` : '';
+  const icon = `<i class="fas ${CALLOUT_TYPES[calloutType].icon}"></i>`;
+  const body = `<div class="lava-flow-callout-content" markdown="1">\n\n${content.trim()}\n\n</div>`;
+  const inner =
+    fold === ''
+      ? `<div class="lava-flow-callout-title">${icon} ${heading}</div>\n${body}`
+      : `<details${fold === '+' ? ' open' : ''}>\n<summary class="lava-flow-callout-title">${icon} ${heading}</summary>\n${body}\n</details>`;
+  return `\n<div class="lava-flow-callout" data-callout="${calloutType}"${typeName} markdown="1">\n${inner}\n</div>\n`;
+}
+
+/**
+ * Turns Obsidian callouts (`> [!type] Title`) into styled blocks with an icon. Foldable callouts (`[!type]-` and
+ * `[!type]+`) become collapsible, starting closed or open, and callouts nested inside them are converted too.
+ */
+export function convertCallouts(body: string): string {
+  const lines = body.split('\n');
+  const output: string[] = [];
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) inFence = !inFence;
+    const match = inFence ? null : lines[i].match(CALLOUT_PATTERN);
+    if (match === null) {
+      output.push(lines[i]);
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < lines.length && QUOTE_LINE_PATTERN.test(lines[end])) end++;
+    const content = lines
+      .slice(i + 1, end)
+      .map((line) => line.replace(/^[ \t]*>[ \t]?/, ''))
+      .join('\n');
+    output.push(renderCallout(match[1], match[2], match[3], convertCallouts(content)));
+    i = end - 1;
+  }
+  return output.join('\n');
+}
+
+/**
+ * Writes a callout as Obsidian markdown. A heading that is only the callout's type was not written in the note.
+ */
+export function formatCallout(type: string, fold: string, heading: string, content: string): string {
+  const title = heading !== '' && heading !== getDefaultCalloutTitle(type) ? ` ${heading}` : '';
+  const lines = content === '' ? [] : content.split('\n').map((line) => (line.trim() === '' ? '>' : `> ${line}`));
+  return [`> [!${type}]${fold}${title}`, ...lines].join('\n');
+}
+
+/**
+ * Writes the content of a secret section as a `> [!dm]` callout, with the title convertDMBlocks put in bold first.
+ */
+export function formatDMBlock(content: string): string {
+  const title = content.match(/^\*\*(.*)\*\*(?:\n\n|$)/);
+  return formatCallout('dm', '', title?.[1] ?? '', title !== null ? content.slice(title[0].length) : content);
+}
+
+// Only callouts and sections with none inside them, so they are put back from the inside out
+const NESTED_BLOCK = '(?!<div class="lava-flow-callout"|<section class="secret")';
+const SAVED_CALLOUT_PATTERN = new RegExp(
+  '\\n?<div class="lava-flow-callout" data-callout="([^"]*)"(?: data-callout-type="([^"]*)")? markdown="1">\\n' +
+    '(?:<div class="lava-flow-callout-title">(?:<i [^>]*></i> )?(.*)</div>|' +
+    '<details( open)?>\\n<summary class="lava-flow-callout-title">(?:<i [^>]*></i> )?(.*)</summary>)\\n' +
+    `<div class="lava-flow-callout-content" markdown="1">\\n\\n((?:${NESTED_BLOCK}[\\s\\S])*?)\\n\\n</div>\\n` +
+    '(?:</details>\\n)?</div>\\n?',
+  'g',
+);
+const SAVED_SECRET_PATTERN = new RegExp(
+  `\\n{0,2}<section class="secret" id="[^"]*" markdown="1">\\n\\n((?:${NESTED_BLOCK}[\\s\\S])*?)\\n\\n</section>\\n{0,2}`,
+  'g',
+);
+
+/**
+ * Turns the callouts written by convertCallouts and the secret sections written by convertDMBlocks back into
+ * Obsidian callouts, a secret becoming a `> [!dm]` callout. Each goes back on lines of its own.
+ */
+export function restoreCallouts(body: string): string {
+  const onOwnLines = (markdown: string, offset: number, text: string, length: number): string => {
+    const before = offset > 0 && text[offset - 1] !== '\n' ? '\n' : '';
+    const after = offset + length < text.length && text[offset + length] !== '\n' ? '\n' : '';
+    return `${before}${markdown}${after}`;
+  };
+  let previous;
+  let text = body;
+  do {
+    previous = text;
+    text = text
+      .replace(
+        SAVED_CALLOUT_PATTERN,
+        (match, calloutType: string, typeName, title, open, summary, content, offset, all) =>
+          onOwnLines(
+            formatCallout(
+              typeName !== undefined ? unescapeHtml(typeName) : calloutType,
+              summary === undefined ? '' : open !== undefined ? '+' : '-',
+              title ?? summary,
+              content,
+            ),
+            offset,
+            all,
+            match.length,
+          ),
+      )
+      .replace(SAVED_SECRET_PATTERN, (match, content: string, offset: number, all: string) =>
+        onOwnLines(formatDMBlock(content), offset, all, match.length),
+      );
+  } while (text !== previous);
+  return text;
+}
+
+// Obsidian tags can use letters, numbers, _, - and / (for nested tags), but cannot be only numbers
+const INLINE_TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_/-]+)/gu;
+const INLINE_CODE_PATTERN = /`[^`\n]*`/g;
+
+/**
+ * Finds the inline #tags in a note, ignoring code and headings.
+ */
+export function extractInlineTags(body: string): string[] {
+  const tags = new Set<string>();
+  outsideCodeFences(body, (text) => {
+    for (const match of text.replace(INLINE_CODE_PATTERN, '').matchAll(INLINE_TAG_PATTERN)) {
+      const tag = match[2].replace(/\/+$/, '');
+      if (tag !== '' && !/^[\d/]+$/.test(tag)) tags.add(tag);
+    }
+    return text;
+  });
+  return [...tags];
+}
+
+/**
+ * Splits a note at each heading of the given level, leaving the heading lines out. The text before the first of those
+ * headings comes first, with no heading, and is left out if it is empty.
+ */
+export function splitAtHeadings(body: string, level: number): Array<{ heading: string | null; content: string }> {
+  const sections: Array<{ heading: string | null; lines: string[] }> = [{ heading: null, lines: [] }];
+  let inFence = false;
+  for (const line of body.split('\n')) {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    const match = inFence ? null : line.match(HEADING_PATTERN);
+    if (match !== null && match[1].length === level) sections.push({ heading: match[2], lines: [] });
+    else sections[sections.length - 1].lines.push(line);
+  }
+  return sections
+    .map((section) => ({ heading: section.heading, content: section.lines.join('\n').trim() }))
+    .filter((section, i) => i > 0 || section.content !== '');
+}
+
+/**
+ * Gets the text of every heading in a note, outside code blocks.
+ */
+export function getHeadings(body: string): string[] {
+  const headings: string[] = [];
+  let inFence = false;
+  for (const line of body.split('\n')) {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(HEADING_PATTERN);
+    if (heading !== null) headings.push(heading[2]);
+  }
+  return headings;
+}
+
+/**
+ * Gets the anchor of every heading and block in a note, so links to them can be pointed at the page they end up on.
+ */
+export function getAnchors(body: string): string[] {
+  const anchors: string[] = [];
+  let inFence = false;
+  for (const line of body.split('\n')) {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(HEADING_PATTERN);
+    if (heading !== null) anchors.push(getHeadingAnchor(heading[2]));
+    for (const block of line.matchAll(/<span id="(block-[^"]*)" data-lava-flow-block><\/span>/g))
+      anchors.push(block[1]);
+  }
+  return anchors;
+}
@@ -0,0 +1,197 @@
+import LavaFlow from './lava-flow.js';
+import { OtherFileInfo } from './file-info.js';
+import { LavaFlowSettings } from './lava-flow-settings.js';
+import { hashBytes } from './content-hash.js';
+import { browseRecursive } from './server-vault.js';
+
+/**
+ * An attachment uploaded by an import.
+ */
+export interface MediaRecord {
+  hash: string;
+  // The vault path of the attachment it was uploaded for
+  source: string;
+}
+
+// Records for every storage location, keyed by "<storage>|<path>"
+type MediaManifest = Record<string, MediaRecord>;
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace ClientSettings {
+    interface Values {
+      'lava-flow-jrayc.mediaManifest': MediaManifest;
+    }
+  }
+}
+
+/**
+ * Keeps track of the attachments uploaded to the media folder, by content hash, in a world setting. Re-imports only
+ * upload attachments that are new or changed, and two attachments with the same name never overwrite each other.
+ * Paths are relative to the storage, e.g. "img/Fruits/Apple.png", whether or not the upload is to S3.
+ */
+export class MediaLibrary {
+  private readonly settings: LavaFlowSettings;
+  private readonly manifest: MediaManifest;
+  // What each path in the media folder holds, as far as the manifest and this import know
+  private readonly records = new Map<string, MediaRecord>();
+  // Every file in the media folder, with its URL
+  private readonly existing = new Map<string, string>();
+  private readonly uploaded = new Set<string>();
+  private readonly createdFolders = new Set<string>();
+
+  constructor(settings: LavaFlowSettings, manifest: MediaManifest = {}) {
+    this.settings = settings;
+    this.manifest = manifest;
+    const prefix = `${this.getStorage()}|`;
+    Object.entries(manifest)
+      .filter(([key]) => key.startsWith(prefix))
+      .forEach(([key, record]) => this.records.set(key.slice(prefix.length), record));
+  }
+
+  static registerSettings(): void {
+    (game as Game).settings.register(LavaFlow.ID, 'mediaManifest', {
+      scope: 'world',
+      config: false,
+      type: Object,
+      default: {},
+    });
+  }
+
+  /**
+   * Reads the manifest and lists what is already in the media folder, including its subfolders.
+   */
+  static async load(settings: LavaFlowSettings): Promise<MediaLibrary> {
+    const manifest = (game as Game).settings.get(LavaFlow.ID, 'mediaManifest') as MediaManifest | undefined;
+    const library = new MediaLibrary(settings, manifest ?? {});
+    try {
+      const files = await browseRecursive(
+        library.getSource(),
+        library.getMediaFolder(),
+        library.getMediaFolder(),
+        library.getBucket(),
+      );
+      files.forEach((file) => library.existing.set(file.path, decodeURI(file.url)));
+    } catch (error: any) {
+      // If browse fails, folder might not exist yet - that's okay
+    }
+    return library;
+  }
+
+  /**
+   * A copy for a dry run, so working out targets for a preview does not affect the import itself.
+   */
+  clone(): MediaLibrary {
+    const library = new MediaLibrary(this.settings, this.manifest);
+    this.existing.forEach((url, path) => library.existing.set(path, url));
+    return library;
+  }
+
+  getSource(): 'data' | 's3' {
+    return this.settings.useS3 ? 's3' : 'data';
+  }
+
+  getBucket(): { bucket?: string } {
+    return this.settings.useS3 && this.settings.s3Bucket !== null ? { bucket: this.settings.s3Bucket } : {};
+  }
+
+  private getStorage(): string {
+    return this.settings.useS3 ? `s3:${this.settings.s3Bucket ?? ''}` : 'data';
+  }
+
+  private getMediaFolder(): string {
+    const folder = this.settings.mediaFolder.replace(/\/+$/, '');
+    return folder !== '' ? folder : 'img';
+  }
+
+  /**
+   * Where an attachment goes: the media folder, or the same folders as in the vault under it if paths are preserved.
+   */
+  private getFolder(file: OtherFileInfo): string {
+    const vaultFolders = this.settings.preserveMediaPaths ? file.getVaultPath().split('/').slice(0, -1) : [];
+    return [this.getMediaFolder(), ...vaultFolders].join('/');
+  }
+
+  /**
+   * Works out where an attachment should be linked to, and whether it has to be uploaded there first. An attachment
+   * whose content is already on the server is linked to that copy when duplicates are skipped. One whose name is
+   * taken by a different attachment is given a name ending in its hash. The URL is set if the path is on the server.
+   */
+  async getTarget(file: OtherFileInfo): Promise<{ path: string; url: string | null; upload: boolean }> {
+    file.contentHash ??= hashBytes(new Uint8Array(await file.originalFile.arrayBuffer()));
+    const hash = file.contentHash;
+    const source = file.getVaultPath();
+    const folder = this.getFolder(file);
+    let path = `${folder}/${file.originalFile.name}`;
+
+    // Copies uploaded by this import can always be shared, and copies from earlier ones when duplicates are skipped
+    const isCopy = (p: string): boolean =>
+      this.records.get(p)?.hash === hash &&
+      (this.uploaded.has(p) || (this.settings.skipDuplicateImages && this.existing.has(p)));
+    const copy = isCopy(path) ? path : [...this.records.keys()].find(isCopy);
+    if (copy !== undefined) return { path: copy, url: this.existing.get(copy) ?? null, upload: false };
+
+    const owner = this.records.get(path)?.source;
+    if (this.existing.has(path) && owner !== undefined && owner !== source) {
+      const dot = file.originalFile.name.lastIndexOf('.');
+      const stem = dot > 0 ? file.originalFile.name.slice(0, dot) : file.originalFile.name;
+      const extension = dot > 0 ? file.originalFile.name.slice(dot) : '';
+      path = `${folder}/${stem}-${hash.slice(0, 8)}${extension}`;
+    }
+    return { path, url: this.existing.get(path) ?? null, upload: true };
+  }
+
+  /**
+   * Records that an attachment is at this path, whether or not it was actually uploaded there (for a preview).
+   */
+  add(path: string, file: OtherFileInfo, url: string): void {
+    this.records.set(path, { hash: file.contentHash ?? '', source: file.getVaultPath() });
+    this.existing.set(path, url);
+    this.uploaded.add(path);
+  }
+
+  /**
+   * Uploads an attachment to the path from getTarget and returns the URL to link to.
+   */
+  async upload(file: OtherFileInfo, path: string): Promise<string | null> {
+    const folder = path.slice(0, path.lastIndexOf('/'));
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    await this.createFolder(folder);
+    const upload =
+      name === file.originalFile.name
+        ? file.originalFile
+        : new File([file.originalFile], name, { type: file.originalFile.type });
+    const uploadResponse: any = await FilePicker.upload(this.getSource(), folder, upload, this.getBucket());
+    if (uploadResponse?.path === undefined) return null;
+    const url = decodeURI(uploadResponse.path);
+    this.add(path, file, url);
+    return url;
+  }
+
+  /**
+   * Creates a folder, and the folders above it, in the data storage. S3 does not have folders.
+   */
+  private async createFolder(folder: string): Promise<void> {
+    if (this.settings.useS3) return;
+    const parts = folder.split('/');
+    for (let i = 1; i <= parts.length; i++) {
+      const path = parts.slice(0, i).join('/');
+      if (this.createdFolders.has(path) || [...this.existing.keys()].some((p) => p.startsWith(`${path}/`))) continue;
+      try {
+        await FilePicker.createDirectory('data', path);
+      } catch (error: any) {
+        // Already exists
+      }
+      this.createdFolders.add(path);
+    }
+  }
+
+  async save(): Promise<void> {
+    const prefix = `${this.getStorage()}|`;
+    const manifest = { ...this.manifest };
+    this.records.forEach((record, path) => {
+      manifest[`${prefix}${path}`] = record;
+    });
+    await (game as Game).settings.set(LavaFlow.ID, 'mediaManifest', manifest);
+  }
+}
@@ -0,0 +1,236 @@
+import LavaFlow, { SourceFlag } from './lava-flow.js';
+import { isInFolderTree } from './util.js';
+import { ImportDestination } from './import-destination.js';
+
+export type OrphanAction = 'delete' | 'archive' | 'keep';
+
+export interface OrphanRename {
+  // @ts-expect-error
+  from: JournalEntryPage;
+  // @ts-expect-error
+  to: JournalEntryPage;
+}
+
+/**
+ * Folders, journals and pages flagged by a previous import whose source note no longer exists in the vault.
+ */
+export class Orphans {
+  folders: Folder[] = [];
+  journals: JournalEntry[] = [];
+  // Orphaned pages inside journals that are otherwise still in use, e.g. combined folder journals
+  // @ts-expect-error
+  pages: JournalEntryPage[] = [];
+  renames: OrphanRename[] = [];
+
+  /**
+   * Compares everything flagged under the root folder of the destination against the IDs produced by this run.
+   * Orphaned pages whose content hash matches a page created this run are treated as renames rather than orphans.
+   */
+  static find(
+    producedIds: Set<string>,
+    rootFolder: Folder | null,
+    // @ts-expect-error
+    newPages: JournalEntryPage[],
+    destination: ImportDestination,
+  ): Orphans {
+    const orphans = new Orphans();
+    const inScope = (folder: Folder | null): boolean =>
+      isInFolderTree(folder, rootFolder) && !Orphans.isArchived(folder);
+
+    orphans.folders = destination.folders.filter(
+        (f) =>
+          f.type === 'JournalEntry' &&
+          f.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.FOLDER) === true &&
+          f.id !== rootFolder?.id &&
+          inScope(f) &&
+          !producedIds.has(f.id as string),
+    );
+
+    const flaggedJournals = destination.journals.filter(
+      (j) => j.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.JOURNAL) === true && inScope(j.folder),
+    );
+    orphans.journals = flaggedJournals.filter((j) => !producedIds.has(j.id as string));
+
+    flaggedJournals
+      .filter((j) => producedIds.has(j.id as string))
+      .forEach((j) => {
+        // @ts-expect-error
+        j.pages.forEach((page: JournalEntryPage) => {
+          if (Orphans.getSource(page) !== undefined && !producedIds.has(page.id)) orphans.pages.push(page);
+        });
+      });
+
+    // @ts-expect-error
+    const newPagesByHash = new Map<string, JournalEntryPage>();
+    newPages.forEach((page) => {
+      const source = Orphans.getSource(page);
+      if (source !== undefined) newPagesByHash.set(source.hash, page);
+    });
+    // @ts-expect-error
+    const candidates: JournalEntryPage[] = [...orphans.pages];
+    // @ts-expect-error
+    orphans.journals.forEach((j) => j.pages.forEach((page: JournalEntryPage) => candidates.push(page)));
+    candidates.forEach((from) => {
+      const to = newPagesByHash.get(Orphans.getSource(from)?.hash ?? '');
+      if (to === undefined) return;
+      orphans.renames.push({ from, to });
+      newPagesByHash.delete(Orphans.getSource(from)?.hash ?? '');
+    });
+    orphans.pages = orphans.pages.filter((p) => !orphans.renames.some((r) => r.from === p));
+
+    return orphans;
+  }
+
+  // @ts-expect-error
+  static getSource(page: JournalEntryPage): SourceFlag | undefined {
+    return page.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.SOURCE) as SourceFlag | undefined;
+  }
+
+  static isArchived(folder: Folder | null): boolean {
+    let current: any = folder;
+    while (current !== null && current !== undefined) {
+      if (current.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.ORPHANED) === true) return true;
+      current = current.folder;
+    }
+    return false;
+  }
+
+  isEmpty(): boolean {
+    return this.folders.length + this.journals.length + this.pages.length + this.renames.length < 1;
+  }
+
+  /**
+   * Asks the user what to do with the orphans. Closing the dialog leaves everything as it is.
+   */
+  async prompt(): Promise<OrphanAction> {
+    const content = await renderTemplate(LavaFlow.TEMPLATES.ORPHANSDIAG, {
+      renames: this.renames.map((r) => ({ from: Orphans.getSource(r.from)?.path, to: Orphans.getSource(r.to)?.path })),
+      folders: this.folders.map((f) => f.name),
+      journals: this.journals.map((j) => j.name),
+      pages: this.pages.map((p) => `${p.parent?.name as string} / ${p.name as string}`),
+    });
+    return await new Promise((resolve) => {
+      new Dialog({
+        title: 'Orphaned Journals',
+        content,
+        buttons: {
+          delete: { icon: '<i class="fas fa-trash"></i>', label: 'Delete', callback: () => resolve('delete') },
+          archive: { icon: '<i class="fas fa-archive"></i>', label: 'Archive', callback: () => resolve('archive') },
+          keep: { icon: '<i class="fas fa-times"></i>', label: 'Leave', callback: () => resolve('keep') },
+        },
+        default: 'keep',
+        close: () => resolve('keep'),
+      }).render(true);
+    });
+  }
+
+  async apply(action: OrphanAction, rootFolder: Folder | null, destination: ImportDestination): Promise<void> {
+    if (action === 'keep') return;
+
+    for (const rename of this.renames) await Orphans.carryOver(rename);
+
+    // A journal whose only pages were carried over has nothing left worth keeping
+    const emptied = this.journals.filter((j) =>
+      // @ts-expect-error
+      j.pages.contents.every((page: JournalEntryPage) => this.renames.some((r) => r.from === page)),
+    );
+    const journals = this.journals.filter((j) => !emptied.includes(j));
+    await JournalEntry.deleteDocuments(
+      emptied.map((j) => j.id as string),
+      destination.options,
+    );
+    await Orphans.deletePages(this.renames.map((r) => r.from).filter((p) => !emptied.includes(p.parent)));
+
+    if (action === 'delete') {
+      await Orphans.deletePages(this.pages);
+      await JournalEntry.deleteDocuments(
+        journals.map((j) => j.id as string),
+        destination.options,
+      );
+      await Folder.deleteDocuments(
+        this.folders.map((f) => f.id as string),
+        destination.options,
+      );
+    } else {
+      await this.archive(journals, rootFolder, destination);
+    }
+
+    LavaFlow.log(`Cleaned up ${this.folders.length + journals.length + this.pages.length} orphaned documents.`, true);
+  }
+
+  private async archive(
+    journals: JournalEntry[],
+    rootFolder: Folder | null,
+    destination: ImportDestination,
+  ): Promise<void> {
+    const archiveFolder = await Orphans.getArchiveFolder(rootFolder, destination);
+
+    // Moving a folder takes its contents with it, so only the top-most orphans need to move
+    const topFolders = this.folders.filter((f) => !this.folders.includes((f as any).folder));
+    await Folder.updateDocuments(
+      topFolders.map((f) => ({ _id: f.id, folder: archiveFolder.id })),
+      destination.options,
+    );
+    await JournalEntry.updateDocuments(
+      journals
+        .filter((j) => !this.folders.includes(j.folder as Folder))
+        .map((j) => ({ _id: j.id, folder: archiveFolder.id })),
+      destination.options,
+    );
+
+    if (this.pages.length > 0) {
+      const pageJournal = await JournalEntry.create(
+        { name: 'Orphaned Pages', folder: archiveFolder.id },
+        destination.options,
+      );
+      // @ts-expect-error
+      await JournalEntryPage.createDocuments(
+        this.pages.map((p) => p.toObject()),
+        { parent: pageJournal },
+      );
+      await Orphans.deletePages(this.pages);
+    }
+  }
+
+  private static async getArchiveFolder(rootFolder: Folder | null, destination: ImportDestination): Promise<Folder> {
+    const existing = destination.folders.find(
+      (f) =>
+        f.type === 'JournalEntry' &&
+        (f as any).folder?.id === rootFolder?.id &&
+        f.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.ORPHANED) === true,
+    );
+    if (existing !== undefined) return existing;
+
+    const folder = (await Folder.create(
+      {
+        name: 'Orphaned',
+        type: 'JournalEntry',
+        folder: rootFolder?.id ?? null,
+      },
+      destination.options,
+    )) as Folder;
+    await folder.setFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.ORPHANED, true);
+    return folder;
+  }
+
+  /**
+   * Moves the GM's copy of a renamed note onto the page created for its new path, so edits and permissions made in
+   * Foundry survive the rename.
+   */
+  private static async carryOver(rename: OrphanRename): Promise<void> {
+    const from = rename.from.toObject();
+    await rename.to.update({ text: from.text, ownership: from.ownership });
+    if (rename.from.parent?.pages.size === 1 && rename.to.parent?.pages.size === 1)
+      await rename.to.parent.update({ ownership: rename.from.parent.toObject().ownership });
+  }
+
+  // @ts-expect-error
+  private static async deletePages(pages: JournalEntryPage[]): Promise<void> {
+    const byJournal = new Map<JournalEntry, string[]>();
+    pages.forEach((page) => byJournal.set(page.parent, [...(byJournal.get(page.parent) ?? []), page.id]));
+    for (const [journal, ids] of byJournal) {
+      // @ts-expect-error
+      await JournalEntryPage.deleteDocuments(ids, { parent: journal });
+    }
+  }
+}
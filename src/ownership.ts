@@ -0,0 +1,97 @@
+import { getFrontmatterValue } from './frontmatter.js';
+
+/**
+ * Ownership levels by user ID, with 'default' for everyone else, as stored on Foundry documents.
+ */
+export type Ownership = Record<string, number>;
+
+function getLevels(): Record<string, number> {
+  // @ts-expect-error
+  return CONST.DOCUMENT_OWNERSHIP_LEVELS;
+}
+
+/**
+ * Gets the Foundry ownership level for a level name (e.g. "observer") or number. Returns null if it is neither.
+ */
+export function getOwnershipLevel(value: unknown): number | null {
+  const levels = getLevels();
+  if (typeof value === 'number') return Object.values(levels).includes(value) ? value : null;
+  return levels[String(value).trim().toUpperCase()] ?? null;
+}
+
+function findUserId(name: string): string | null {
+  const target = name.trim().toLowerCase();
+  const user = (game as Game).users?.find((u) => u.id === name || u.name?.toLowerCase() === target);
+  return user?.id ?? null;
+}
+
+/**
+ * Reads who can see a note from its frontmatter:
+ * - `public: true` or `visibility: public` lets every player observe it
+ * - `players: [Alice, Bob]` lets the named players observe it, and hides it from everyone else unless a default is set
+ * - `ownership: { default: limited, Alice: owner }` sets any level for everyone or for named players
+ *
+ * Later entries win over earlier ones. Players are matched by name, and names or levels that do not match anything
+ * are passed to `warn`. Returns null if the frontmatter does not mention ownership at all.
+ */
+export function getFrontmatterOwnership(
+  frontmatter: Record<string, unknown>,
+  warn: (message: string) => void,
+): Ownership | null {
+  const levels = getLevels();
+  const ownership: Ownership = {};
+  let found = false;
+
+  const isPublic =
+    getFrontmatterValue(frontmatter, 'public') === true ||
+    String(getFrontmatterValue(frontmatter, 'visibility')).toLowerCase() === 'public';
+  if (isPublic) {
+    ownership.default = levels.OBSERVER;
+    found = true;
+  }
+
+  const players = getFrontmatterValue(frontmatter, 'players');
+  if (players !== undefined && players !== null) {
+    found = true;
+    (Array.isArray(players) ? players : [players]).forEach((name) => {
+      const userId = findUserId(String(name));
+      if (userId === null) warn(`"players" names ${String(name)}, who is not a user in this world.`);
+      else ownership[userId] = levels.OBSERVER;
+    });
+  }
+
+  const levelsByName = getFrontmatterValue(frontmatter, 'ownership');
+  if (levelsByName !== undefined && levelsByName !== null) {
+    found = true;
+    // A single level is shorthand for the default, e.g. "ownership: limited"
+    const entries: Array<[string, unknown]> =
+      typeof levelsByName === 'object' && !Array.isArray(levelsByName)
+        ? Object.entries(levelsByName as Record<string, unknown>)
+        : [['default', levelsByName]];
+    entries.forEach(([name, value]) => {
+      const level = getOwnershipLevel(value);
+      const userId = name.toLowerCase() === 'default' ? 'default' : findUserId(name);
+      if (level === null) warn(`"ownership" gives ${name} the unknown level ${String(value)}.`);
+      else if (userId === null) warn(`"ownership" names ${name}, who is not a user in this world.`);
+      else ownership[userId] = level;
+    });
+  }
+
+  return found ? ownership : null;
+}
+
+/**
+ * The ownership update that makes a document match the frontmatter. Foundry merges ownership updates, so every user
+ * the document lists that the frontmatter does not is deleted, except GMs, who see everything anyway and are listed
+ * as the owner of documents they create.
+ */
+export function getOwnershipUpdate(current: Ownership, ownership: Ownership): Record<string, number | null> {
+  const update: Record<string, number | null> = { ...ownership };
+  Object.keys(current)
+    .filter((userId) => userId !== 'default' && !(userId in ownership))
+    .filter((userId) => (game as Game).users?.get(userId)?.isGM !== true)
+    .forEach((userId) => {
+      update[`-=${userId}`] = null;
+    });
+  return update;
+}
@@ -0,0 +1,73 @@
+import { VaultFile } from './file-info.js';
+import { LavaFlowSettings } from './lava-flow-settings.js';
+import { VaultFilter } from './vault-filter.js';
+
+export interface ServerFile {
+  // Where to fetch the file from, as returned by FilePicker.browse
+  url: string;
+  // The path given for the directory browsed, followed by the file's folders and name within it
+  path: string;
+}
+
+function getName(url: string): string {
+  const name = url.replace(/\/+$/, '').split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(name);
+  } catch (e) {
+    return name;
+  }
+}
+
+/**
+ * Lists every file under a server directory, with its path built from the given path for the directory. Hidden
+ * directories, such as .obsidian and .git, are not entered.
+ */
+export async function browseRecursive(
+  source: 'data' | 's3',
+  directory: string,
+  path: string,
+  options: { bucket?: string },
+): Promise<ServerFile[]> {
+  const result: any = await FilePicker.browse(source, directory, options);
+  const files: ServerFile[] = (result?.files ?? []).map((url: string) => ({ url, path: `${path}/${getName(url)}` }));
+  for (const child of (result?.dirs ?? []) as string[]) {
+    const name = getName(child);
+    if (name.startsWith('.')) continue;
+    files.push(...(await browseRecursive(source, child, `${path}/${name}`, options)));
+  }
+  return files;
+}
+
+/**
+ * Reads a vault from a directory in Foundry's data storage or an S3 bucket, such as one kept in sync with git. Notes
+ * and the .lavaflowignore file are downloaded, but attachments are already on the server, so they are linked where
+ * they are instead of being uploaded again.
+ */
+export async function readServerVault(settings: LavaFlowSettings): Promise<VaultFile[]> {
+  const source = settings.vaultSource === 's3' ? 's3' : 'data';
+  const options = source === 's3' && settings.vaultS3Bucket !== null ? { bucket: settings.vaultS3Bucket } : {};
+  const directory = settings.serverVaultPath.trim().replace(/\/+$/, '');
+  if (directory === '') throw new Error('No server vault folder was given.');
+
+  // The vault's own folder name starts each path, as it does with the folder picker, so both give the same IDs
+  const root = getName(directory);
+  const serverFiles = await browseRecursive(source, directory, root, options);
+  const files: VaultFile[] = [];
+  for (const { url, path } of serverFiles) {
+    const name = getName(url);
+    // The ignore file is read like a note, so its patterns apply to the rest of the vault
+    if (!name.endsWith('.md') && path !== `${root}/${VaultFilter.IGNORE_FILE}`) {
+      // Only the name of an attachment is needed to link to it, so its content is never downloaded
+      files.push({ file: new File([], name), path, serverPath: decodeURI(url) });
+      continue;
+    }
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${path} could not be downloaded from the server (${response.status}).`);
+    const lastModified = Date.parse(response.headers.get('Last-Modified') ?? '');
+    files.push({
+      file: new File([await response.blob()], name, Number.isNaN(lastModified) ? {} : { lastModified }),
+      path,
+    });
+  }
+  return files;
+}
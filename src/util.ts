@@ -1,26 +1,34 @@
 import LavaFlow from './lava-flow.js';
 import { generateFolderUUID, documentExists } from './deterministic-uuid.js';
+import { ImportDestination } from './import-destination.js';
 
 export async function createOrGetFolder(
   folderName: string | null,
   parentFolderID: string | null = null,
-  folderPath: string[] = []
+  folderPath: string[] = [],
+  destination: ImportDestination = new ImportDestination()
 ): Promise<Folder | null> {
   if (folderName == null || folderName === '') return null;
-  const folder = (await getFolder(folderName, parentFolderID)) ?? (await createFolder(folderName, parentFolderID, folderPath));
+  const folder =
+    (await getFolder(folderName, parentFolderID, destination)) ??
+    (await createFolder(folderName, parentFolderID, folderPath, destination));
   return folder;
 }
 
-export async function getFolder(folderName: string, parentFolderID: string | null): Promise<Folder | null> {
+export async function getFolder(
+  folderName: string,
+  parentFolderID: string | null,
+  destination: ImportDestination = new ImportDestination()
+): Promise<Folder | null> {
   if (parentFolderID !== null) {
-    const parent = (game as Game).folders?.get(parentFolderID) as Folder;
+    const parent = destination.folders.get(parentFolderID) as Folder;
     // v10 not supported by foundry-vtt-types yet
     // @ts-expect-error
     const matches = parent.children.filter((c) => c.folder.name === folderName) ?? [];
     return matches.length > 0 ? (matches[0].folder as Folder) : null;
   } else {
     return (
-      (game as Game).folders?.find((f) => f.type === 'JournalEntry' && f.depth === 1 && f.name === folderName) ?? null
+      destination.folders.find((f) => f.type === 'JournalEntry' && f.depth === 1 && f.name === folderName) ?? null
     );
   }
 }
@@ -28,15 +36,16 @@ export async function getFolder(folderName: string, parentFolderID: string | nul
 export async function createFolder(
   folderName: string,
   parentFolderID: string | null,
-  folderPath: string[] = []
+  folderPath: string[] = [],
+  destination: ImportDestination = new ImportDestination()
 ): Promise<Folder | null> {
   // Build the full path for this folder
   const fullPath = [...folderPath, folderName];
   const deterministicId = generateFolderUUID(fullPath);
 
   // Check if a folder with this ID already exists
-  if (documentExists((game as Game).folders, deterministicId)) {
-    return (game as Game).folders?.get(deterministicId) as Folder;
+  if (documentExists(destination.folders, deterministicId)) {
+    return destination.folders.get(deterministicId) as Folder;
   }
 
   const folder = await Folder.create({
@@ -44,7 +53,31 @@ export async function createFolder(
     name: folderName,
     type: 'JournalEntry',
     folder: parentFolderID,
-  }, { keepId: true });
+  }, { keepId: true, ...destination.options });
   await folder?.setFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.FOLDER, true);
   return folder ?? null;
 }
+
+export function isInFolderTree(folder: Folder | null, ancestor: Folder | null): boolean {
+  if (ancestor === null) return true;
+  let current: any = folder;
+  while (current !== null && current !== undefined) {
+    if (current.id === ancestor.id) return true;
+    current = current.folder;
+  }
+  return false;
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function unescapeHtml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,200 @@
+import { VaultFile } from './file-info.js';
+
+// Not yet in the DOM types of this TypeScript version, but in every browser Foundry supports
+declare const DecompressionStream: new (format: string) => TransformStream<Uint8Array, Uint8Array>;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// General purpose flag marking file names as UTF-8
+const UTF8_NAMES = 0x0800;
+
+interface ArchiveEntry {
+  path: string;
+  method: number;
+  compressedSize: number;
+  headerOffset: number;
+  lastModified: number;
+}
+
+async function readBytes(archive: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await archive.slice(start, end).arrayBuffer());
+}
+
+/**
+ * ZIP files store times in local MS-DOS format, to the nearest two seconds.
+ */
+function fromDosTime(time: number, date: number): number {
+  return new Date(
+    1980 + (date >> 9),
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  ).getTime();
+}
+
+/**
+ * Reads the list of files from the central directory at the end of the archive.
+ */
+async function readEntries(archive: File): Promise<ArchiveEntry[]> {
+  // The end of central directory record is 22 bytes, followed by a comment of up to 64 KB
+  const tailStart = Math.max(0, archive.size - 22 - 0xffff);
+  const tail = await readBytes(archive, tailStart, archive.size);
+  let end = tail.byteLength - 22;
+  while (end >= 0 && tail.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) end--;
+  if (end < 0) throw new Error(`${archive.name} is not a ZIP file.`);
+
+  const count = tail.getUint16(end + 10, true);
+  const size = tail.getUint32(end + 12, true);
+  const offset = tail.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff)
+    throw new Error(`${archive.name} is a ZIP64 archive, which is not supported.`);
+
+  const directory = await readBytes(archive, offset, offset + size);
+  const decoder = new TextDecoder();
+  const entries: ArchiveEntry[] = [];
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER)
+      throw new Error(`${archive.name} is damaged.`);
+    const flags = directory.getUint16(position + 8, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    // Some Windows tools write backslashes, which ZIP does not allow
+    const path = decoder.decode(new Uint8Array(directory.buffer, position + 46, nameLength)).replace(/\\/g, '/');
+    if ((flags & 1) !== 0) throw new Error(`${path} in ${archive.name} is encrypted, which is not supported.`);
+    entries.push({
+      path,
+      method: directory.getUint16(position + 10, true),
+      compressedSize: directory.getUint32(position + 20, true),
+      headerOffset: directory.getUint32(position + 42, true),
+      lastModified: fromDosTime(directory.getUint16(position + 12, true), directory.getUint16(position + 14, true)),
+    });
+    position += 46 + nameLength + directory.getUint16(position + 30, true) + directory.getUint16(position + 32, true);
+  }
+  return entries;
+}
+
+async function extract(archive: File, entry: ArchiveEntry): Promise<Blob> {
+  const header = await readBytes(archive, entry.headerOffset, entry.headerOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) throw new Error(`${archive.name} is damaged.`);
+  const start = entry.headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = archive.slice(start, start + entry.compressedSize);
+  if (entry.method === STORED) return data;
+  if (entry.method === DEFLATED)
+    return await new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+  throw new Error(
+    `${entry.path} in ${archive.name} is compressed in a way that is not supported (method ${entry.method}).`,
+  );
+}
+
+function getMimeType(fileName: string): string {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  // @ts-expect-error
+  return (CONST.UPLOADABLE_FILE_EXTENSIONS?.[extension] as string | undefined) ?? '';
+}
+
+/**
+ * Unpacks a ZIP of a vault into the same files the folder picker gives, with the same relative paths, so both
+ * produce the same IDs. A vault zipped as a folder keeps that folder's name at the top of each path. A vault zipped
+ * from inside its folder is given the archive's name instead.
+ */
+export async function readVaultArchive(archive: File): Promise<VaultFile[]> {
+  const entries = (await readEntries(archive)).filter(
+    (entry) => !entry.path.endsWith('/') && !entry.path.startsWith('__MACOSX/'),
+  );
+  const topFolders = new Set(entries.map((entry) => (entry.path.includes('/') ? entry.path.split('/')[0] : '')));
+  const prefix = topFolders.size === 1 && !topFolders.has('') ? '' : `${archive.name.replace(/\.zip$/i, '')}/`;
+
+  const files: VaultFile[] = [];
+  for (const entry of entries) {
+    const name = entry.path.split('/').pop() as string;
+    const content = await extract(archive, entry);
+    files.push({
+      file: new File([content], name, { type: getMimeType(name), lastModified: entry.lastModified }),
+      path: `${prefix}${entry.path}`,
+    });
+  }
+  return files;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = (c & 1) !== 0 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosTime(time: number): { time: number; date: number } {
+  const d = new Date(time);
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+/**
+ * Packs text files into a ZIP, uncompressed, with their paths as given. Names are flagged as UTF-8, so paths with
+ * accents and other non-ASCII characters unpack the same everywhere.
+ */
+export function writeVaultArchive(files: Array<{ path: string; content: string }>): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosTime(Date.now());
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  files.forEach((file) => {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_FILE_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, UTF8_NAMES, true);
+    header.setUint16(8, STORED, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(header.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, UTF8_NAMES, true);
+    entry.setUint16(10, STORED, true);
+    entry.setUint16(12, time, true);
+    entry.setUint16(14, date, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    directory.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+}
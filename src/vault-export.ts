@@ -0,0 +1,348 @@
+import LavaFlow from './lava-flow.js';
+import { Orphans } from './orphans.js';
+import { ImportDestination } from './import-destination.js';
+import { replaceBacklinks } from './backlinks.js';
+import { stringifyFrontmatter } from './frontmatter.js';
+import { generatePageUUID } from './deterministic-uuid.js';
+import {
+  extractInlineTags,
+  formatCallout,
+  formatDMBlock,
+  getHeadingAnchor,
+  getHeadings,
+  restoreBlockReferences,
+  restoreCallouts,
+} from './markdown-transforms.js';
+import { isInFolderTree, unescapeHtml } from './util.js';
+
+// Loaded by Foundry, which uses it to render markdown pages
+declare const showdown: { Converter: new () => { makeMarkdown: (html: string) => string } };
+
+const UUID_LINK_PATTERN = /@UUID\[([^\]#]+)(?:#([^\]]*))?\](?:\{([^}]*)\})?/g;
+const UNRESOLVED_PATTERN = /<span class="lava-flow-unresolved" title="Unresolved link: ([^"]*)">([^<]*)<\/span>/g;
+const BLOCK_ANCHOR_PATTERN = /<span id="block-[^"]*" data-lava-flow-block(?:="")?><\/span>/g;
+const HTML_HEADING_PATTERN = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/g;
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(<?([^)\s>]+)>?(?:\s*=(\d+)x(\d+|\*))?\)/g;
+// Stand-ins for the wikilinks and anchors worked out before a page is converted from HTML, which would escape them
+const TOKEN_PATTERN = /\uE000(\d+)\uE001/g;
+// Embeds are replaced from the inside out, since an embedded note can itself embed others
+const EMBED_PATTERN =
+  /<div class="lava-flow-embed"[^>]*>(?:(?!<div class="lava-flow-embed")[\s\S])*?<p class="lava-flow-embed-source"><i class="fas fa-file-import"><\/i>\s*(\uE000\d+\uE001)\s*<\/p>\s*<\/div>/g;
+
+/**
+ * A note being exported, put back together from the pages it was imported as.
+ */
+interface ExportNote {
+  // The vault path it was imported from
+  path: string;
+  // In the order they are in the journal
+  // @ts-expect-error
+  pages: JournalEntryPage[];
+  splitLevel: number;
+  // The heading each page was split at, or null for the text before the first heading
+  headings: Array<string | null>;
+  // Heading text by anchor, so links to a heading can name it again
+  anchors: Map<string, string>;
+  // The shortest name Obsidian can find the note by
+  linkName: string;
+}
+
+function getFileName(path: string): string {
+  return (path.split('/').pop() as string).replace(/\.md$/i, '');
+}
+
+function decodePath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch (e) {
+    return path;
+  }
+}
+
+// @ts-expect-error
+function isHtml(page: JournalEntryPage): boolean {
+  // @ts-expect-error
+  return page.text.format === CONST.JOURNAL_ENTRY_PAGE_FORMATS.HTML;
+}
+
+// @ts-expect-error
+function getPageText(page: JournalEntryPage): string {
+  return ((isHtml(page) ? page.text.content : page.text.markdown) as string | null) ?? '';
+}
+
+// @ts-expect-error
+function getPageHeadings(page: JournalEntryPage): string[] {
+  const text = getPageText(page);
+  if (!isHtml(page)) return getHeadings(text);
+  return [...text.matchAll(HTML_HEADING_PATTERN)].map((match) => unescapeHtml(match[2].replace(/<[^>]*>/g, '')).trim());
+}
+
+/**
+ * The wikilink an unresolved link was written from, as far as its target and display text tell.
+ */
+function getUnresolvedLink(target: string, display: string): string {
+  if (display === target) return `[[${target}]]`;
+  // Shown as "Note > Heading" when it had a heading and no alias
+  if (display.startsWith(`${target} > `)) return `[[${target}#${display.slice(target.length + 3)}]]`;
+  return `[[${target}|${display}]]`;
+}
+
+/**
+ * Turns uploaded attachments back into embeds of the vault file. They are linked with the name of the file in the
+ * vault, which may differ from the uploaded one when the upload had to be renamed.
+ */
+function restoreImages(text: string): string {
+  return text.replace(IMAGE_PATTERN, (match, name: string, url: string, width?: string, height?: string) => {
+    const uploaded = decodePath(url.split('/').pop() as string);
+    if (!/\.[A-Za-z0-9]+$/.test(name) || !uploaded.startsWith(name.replace(/\.[^.]+$/, ''))) return match;
+    const size = width === undefined ? '' : height === '*' ? `|${width}` : `|${width}x${height as string}`;
+    return `![[${name}${size}]]`;
+  });
+}
+
+/**
+ * Writes the notes imported into a folder back out as the markdown files of a vault, at the paths they were imported
+ * from. Links to other exported pages become wikilinks again, pages converted to HTML are converted back to markdown,
+ * and the frontmatter is rebuilt from the tags, aliases and properties stored on the pages. The backlinks section and
+ * anything else added by the import is left out.
+ */
+export class VaultExport {
+  readonly folder: Folder;
+  notes: ExportNote[] = [];
+  // The note and page index of every exported page, by the page's UUID
+  private readonly pages = new Map<string, { note: ExportNote; index: number }>();
+  private converter: { makeMarkdown: (html: string) => string } | null = null;
+
+  constructor(folder: Folder) {
+    this.folder = folder;
+    this.collect();
+  }
+
+  /**
+   * The folders an import created, other than archived orphans, by ID, labelled with their path in the journal
+   * directory.
+   */
+  static getFolderChoices(): Record<string, string> {
+    const getLabel = (folder: any): string =>
+      folder.folder !== null && folder.folder !== undefined
+        ? `${getLabel(folder.folder)} / ${folder.name as string}`
+        : folder.name;
+    const choices = new ImportDestination().folders
+      .filter(
+        (f) =>
+          f.type === 'JournalEntry' &&
+          f.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.FOLDER) === true &&
+          !Orphans.isArchived(f),
+      )
+      .map((f) => [f.id as string, getLabel(f)])
+      .sort((a, b) => a[1].localeCompare(b[1]));
+    return Object.fromEntries(choices);
+  }
+
+  /**
+   * Finds the imported pages in the folder and its subfolders and groups them into notes. A note imported into more
+   * than one journal is taken from the first.
+   */
+  private collect(): void {
+    const destination = new ImportDestination();
+    // @ts-expect-error
+    const pagesByPath = new Map<string, JournalEntryPage[]>();
+    destination.journals
+      .filter(
+        (j) =>
+          j.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.JOURNAL) === true &&
+          isInFolderTree(j.folder, this.folder) &&
+          !Orphans.isArchived(j.folder),
+      )
+      .forEach((journal) => {
+        // @ts-expect-error
+        const journalPages = new Map<string, JournalEntryPage[]>();
+        // @ts-expect-error
+        journal.pages.forEach((page: JournalEntryPage) => {
+          const source = Orphans.getSource(page);
+          if (source?.path === undefined || pagesByPath.has(source.path)) return;
+          journalPages.set(source.path, [...(journalPages.get(source.path) ?? []), page]);
+        });
+        journalPages.forEach((pages, path) => pagesByPath.set(path, pages));
+      });
+
+    pagesByPath.forEach((pages, path) => {
+      pages.sort((a: any, b: any) => a.sort - b.sort);
+      const splitLevel = Orphans.getSource(pages[0])?.split ?? 0;
+      const note: ExportNote = {
+        path,
+        pages,
+        splitLevel,
+        headings: pages.map((page: any, i: number) => {
+          // The text before the first heading is keyed by the file name, and every other page by its heading
+          if (splitLevel < 1 || (i === 0 && page.id === generatePageUUID(path, getFileName(path)))) return null;
+          // Repeated headings were numbered to keep their pages apart
+          const name = page.name as string;
+          const numbered = name.match(/^(.*) \(\d+\)$/);
+          return numbered !== null && pages.slice(0, i).some((p: any) => p.name === numbered[1]) ? numbered[1] : name;
+        }),
+        anchors: new Map(),
+        linkName: getFileName(path),
+      };
+      [...note.headings, ...pages.flatMap((page: any) => getPageHeadings(page))].forEach((heading) => {
+        if (heading !== null && !note.anchors.has(getHeadingAnchor(heading)))
+          note.anchors.set(getHeadingAnchor(heading), heading);
+      });
+      pages.forEach((page: any, index: number) => this.pages.set(page.uuid, { note, index }));
+      this.notes.push(note);
+    });
+
+    // Notes are linked by file name unless another note has the same one, the same as Obsidian's shortest links
+    this.notes.forEach((note) => {
+      const name = note.linkName.toLowerCase();
+      if (this.notes.some((other) => other !== note && other.linkName.toLowerCase() === name))
+        note.linkName = note.path.replace(/\.md$/i, '');
+    });
+  }
+
+  /**
+   * The wikilink for a link to an exported page, or null for a link to anything else. A label that is the same as
+   * the one the import gives the link is left out.
+   */
+  private getWikilink(uuid: string, anchor: string | null, label: string | null): string | null {
+    const target = this.pages.get(uuid);
+    if (target === undefined) return null;
+    const { note, index } = target;
+
+    let heading: string | null = null;
+    let fragment: string | null = null;
+    if (anchor?.startsWith('block-') === true) fragment = `^${anchor.slice('block-'.length)}`;
+    else if (anchor !== null) heading = note.anchors.get(anchor) ?? null;
+    else heading = note.headings[index];
+    if (heading !== null) fragment = heading;
+
+    const title = note.pages[0].name as string;
+    const defaultLabel = heading !== null ? `${title} > ${heading}` : title;
+    const alias = label !== null && label !== defaultLabel ? label : null;
+    return `[[${note.linkName}${fragment !== null ? `#${fragment}` : ''}${alias !== null ? `|${alias}` : ''}]]`;
+  }
+
+  private makeMarkdown(html: string): string {
+    this.converter ??= new showdown.Converter();
+    return this.converter.makeMarkdown(html);
+  }
+
+  /**
+   * Turns the callouts and secret sections of an HTML page into tokens for the callouts they were written as, from the
+   * inside out so a callout's content already has the ones inside it.
+   */
+  private restoreHtmlCallouts(
+    html: string,
+    token: (markdown: string) => string,
+    untokenize: (text: string) => string,
+  ): string {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    const toMarkdown = (element: Element | null): string =>
+      untokenize(this.makeMarkdown(element?.innerHTML ?? '')).trim();
+    Array.from(template.content.querySelectorAll('.lava-flow-callout, section.secret'))
+      .reverse()
+      .forEach((block) => {
+        let markdown: string;
+        if (block.matches('section.secret')) markdown = formatDMBlock(toMarkdown(block));
+        else {
+          const details = block.querySelector(':scope > details');
+          const parts = details ?? block;
+          const title = parts.querySelector(':scope > .lava-flow-callout-title');
+          title?.querySelector('i')?.remove();
+          markdown = formatCallout(
+            block.getAttribute('data-callout-type') ?? block.getAttribute('data-callout') ?? 'note',
+            details === null ? '' : details.hasAttribute('open') ? '+' : '-',
+            toMarkdown(title),
+            toMarkdown(parts.querySelector(':scope > .lava-flow-callout-content')),
+          );
+        }
+        const paragraph = document.createElement('p');
+        paragraph.textContent = token(markdown);
+        block.replaceWith(paragraph);
+      });
+    return template.innerHTML;
+  }
+
+  /**
+   * The markdown of one page, with the links, embeds, callouts, block IDs and attachments the import converted put
+   * back.
+   */
+  // @ts-expect-error
+  private getPageMarkdown(page: JournalEntryPage): string {
+    const html = isHtml(page);
+    const tokens: string[] = [];
+    const token = (markdown: string): string => `\uE000${tokens.push(markdown) - 1}\uE001`;
+    const untokenize = (text: string): string =>
+      text.replace(TOKEN_PATTERN, (_match, index: string) => tokens[Number(index)]);
+
+    let text = replaceBacklinks(getPageText(page), '')
+      .replace(UUID_LINK_PATTERN, (match, uuid: string, anchor?: string, label?: string) => {
+        const text = label !== undefined && html ? unescapeHtml(label) : (label ?? null);
+        return token(this.getWikilink(uuid, anchor ?? null, text) ?? match);
+      })
+      .replace(UNRESOLVED_PATTERN, (_match, target: string, display: string) =>
+        token(getUnresolvedLink(unescapeHtml(target), unescapeHtml(display))),
+      );
+    let previous;
+    do {
+      previous = text;
+      text = text.replace(EMBED_PATTERN, (_match, link: string) => (html ? `<p>!${link}</p>` : `!${link}`));
+    } while (text !== previous);
+
+    if (html) {
+      text = text.replace(BLOCK_ANCHOR_PATTERN, (match) => token(match));
+      text = this.makeMarkdown(this.restoreHtmlCallouts(text, token, untokenize));
+    }
+    // The import puts a space before a line starting with a #tag, so it is not read as a heading
+    else text = text.replace(/^ (#[0-9A-Za-z]+\b)/gm, '$1');
+
+    // Block IDs go back inside a callout before its lines are quoted
+    text = restoreBlockReferences(untokenize(text));
+    if (!html) text = restoreCallouts(text);
+    return restoreImages(text).trim();
+  }
+
+  /**
+   * The frontmatter block of a note. Tags written inline in the note are not repeated in it.
+   */
+  private getFrontmatter(note: ExportNote, body: string): string {
+    const page = note.pages[0];
+    const inlineTags = extractInlineTags(body);
+    const tags = ((page.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.TAGS) as string[] | undefined) ?? []).filter(
+      (tag) => !inlineTags.includes(tag),
+    );
+    const aliases = (page.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.ALIASES) as string[] | undefined) ?? [];
+    const yaml = stringifyFrontmatter({
+      ...(tags.length > 0 && { tags }),
+      ...(aliases.length > 0 && { aliases }),
+      ...((page.getFlag(LavaFlow.FLAGS.SCOPE, LavaFlow.FLAGS.FRONTMATTER) as Record<string, unknown> | undefined) ??
+        {}),
+    });
+    return yaml !== '' ? `---\n${yaml}\n---\n` : '';
+  }
+
+  getNoteMarkdown(note: ExportNote): string {
+    const body = note.pages
+      .map((page: any, i: number) => {
+        const text = this.getPageMarkdown(page);
+        const heading = note.headings[i];
+        if (heading === null) return text;
+        const headingLine = `${'#'.repeat(note.splitLevel)} ${heading}`;
+        return text !== '' ? `${headingLine}\n\n${text}` : headingLine;
+      })
+      .filter((text: string) => text !== '')
+      .join('\n\n');
+    return `${this.getFrontmatter(note, body)}${body}\n`;
+  }
+
+  /**
+   * Every note as a file of the vault, under a folder named after the exported one so the vault unpacks into a folder
+   * of its own and can be imported again with the same IDs.
+   */
+  getFiles(): Array<{ path: string; content: string }> {
+    return this.notes
+      .map((note) => ({ path: `${this.folder.name as string}/${note.path}`, content: this.getNoteMarkdown(note) }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+}
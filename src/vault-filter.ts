@@ -0,0 +1,109 @@
+import { VaultFile } from './file-info.js';
+import { LavaFlowSettings } from './lava-flow-settings.js';
+
+interface PatternRule {
+  regex: RegExp;
+  negated: boolean;
+  // Patterns ending in a slash only match folders
+  folderOnly: boolean;
+}
+
+/**
+ * Converts a glob to a regular expression body. * and ? stay within a folder, ** spans folders, and [...] matches
+ * one of a set of characters.
+ */
+function globToRegExp(glob: string): string {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    const classEnd = ch === '[' ? glob.indexOf(']', i + 2) : -1;
+    if (ch === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no folders at all, so "**/Drafts" matches a top-level Drafts folder
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (ch === '*') pattern += '[^/]*';
+    else if (ch === '?') pattern += '[^/]';
+    else if (classEnd > -1) {
+      const characters = glob
+        .slice(i + 1, classEnd)
+        .replace(/^!/, '^')
+        .replace(/\\/g, '\\\\');
+      pattern += `[${characters}]`;
+      i = classEnd;
+    } else pattern += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+  return pattern;
+}
+
+/**
+ * Reads one line of a pattern list, the same way as a .gitignore: blank lines and # comments are skipped, ! negates
+ * a pattern, and a pattern without a slash in the middle matches a file or folder of that name anywhere in the vault.
+ */
+function parseRule(line: string): PatternRule | null {
+  let text = line.trim();
+  if (text === '' || text.startsWith('#')) return null;
+  const negated = text.startsWith('!');
+  if (negated) text = text.slice(1);
+  const folderOnly = text.endsWith('/');
+  text = text.replace(/\/+$/, '');
+  const anchored = text.includes('/');
+  text = text.replace(/^\/+/, '');
+  if (text === '') return null;
+  return { regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegExp(text)}$`), negated, folderOnly };
+}
+
+function parseRules(text: string): PatternRule[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => parseRule(line))
+    .filter((rule): rule is PatternRule => rule !== null);
+}
+
+/**
+ * A pattern matches a file if it matches the file's path or the path of any folder the file is in.
+ */
+function matches(rule: PatternRule, vaultPath: string): boolean {
+  const parts = vaultPath.split('/');
+  for (let i = 1; i <= parts.length; i++) {
+    if (i === parts.length && rule.folderOnly) continue;
+    if (rule.regex.test(parts.slice(0, i).join('/'))) return true;
+  }
+  return false;
+}
+
+/**
+ * Decides which files in the vault are imported, from the include and exclude patterns in the import settings and
+ * any .lavaflowignore file at the root of the vault. Paths are matched relative to the vault, e.g. "Templates/NPC.md".
+ */
+export class VaultFilter {
+  static IGNORE_FILE = '.lavaflowignore';
+
+  private readonly include: PatternRule[];
+  private readonly exclude: PatternRule[];
+
+  constructor(include: string = '', exclude: string = '') {
+    this.include = parseRules(include).filter((rule) => !rule.negated);
+    this.exclude = parseRules(exclude);
+  }
+
+  /**
+   * The filter for an import. Patterns in the .lavaflowignore file come first, so the import settings can override
+   * them.
+   */
+  static async get(settings: LavaFlowSettings, files: VaultFile[]): Promise<VaultFilter> {
+    const ignoreFile = files.find((f) => f.path.split('/').slice(1).join('/') === VaultFilter.IGNORE_FILE);
+    const ignored = ignoreFile !== undefined ? await ignoreFile.file.text() : '';
+    return new VaultFilter(settings.includePatterns, `${ignored}\n${settings.excludePatterns}`);
+  }
+
+  /**
+   * Whether the file at this vault path is imported. With any include patterns, only files they match are imported.
+   * Of the exclude patterns, the last one that matches decides, so "!Templates/Shop.md" after "Templates/" still
+   * imports that one note.
+   */
+  isIncluded(vaultPath: string): boolean {
+    if (this.include.length > 0 && !this.include.some((rule) => matches(rule, vaultPath))) return false;
+    const rule = [...this.exclude].reverse().find((r) => matches(r, vaultPath));
+    return rule === undefined || rule.negated;
+  }
+}
@@ -0,0 +1,161 @@
+import { MDFileInfo } from './file-info.js';
+import { getFrontmatterList } from './frontmatter.js';
+import { LavaFlowSettings } from './lava-flow-settings.js';
+import { escapeHtml } from './util.js';
+
+/**
+ * A folder, tag or frontmatter value in the index, with the notes filed directly under it.
+ */
+export interface IndexGroup {
+  name: string;
+  notes: MDFileInfo[];
+  groups: IndexGroup[];
+}
+
+export interface IndexPage {
+  // Page IDs come from this, so a group named the same as the journal does not get the ID of the journal's own page
+  key: string;
+  name: string;
+  content: string;
+}
+
+/**
+ * The groups a note is filed under, each as a path from the top of the index. A note can be in more than one group
+ * when it has several tags or several values for a field, and in none (the top of the index) when it is at the root
+ * of the vault.
+ */
+function getGroupPaths(file: MDFileInfo, settings: LavaFlowSettings): string[][] {
+  if (settings.indexGroupBy === 'tags') {
+    // Nested tags such as #npc/villain are nested in the index too
+    return file.tags.length > 0 ? file.tags.map((tag) => tag.split('/').filter((t) => t !== '')) : [['Untagged']];
+  }
+
+  if (settings.indexGroupBy === 'frontmatter') {
+    // Each field is one level of the index, e.g. "region, type" files a note under its region and then its type
+    const fields = settings.indexGroupFields
+      .split(',')
+      .map((f) => f.trim())
+      .filter((f) => f !== '');
+    let paths: string[][] = [[]];
+    fields.forEach((field) => {
+      const values = getFrontmatterList(file.frontmatter, field);
+      const levels = values.length > 0 ? values : ['Other'];
+      paths = paths.flatMap((path) => levels.map((value) => [...path, value]));
+    });
+    return paths;
+  }
+
+  // The first directory is the vault itself
+  return [file.directories.slice(1)];
+}
+
+function getGroup(root: IndexGroup, path: string[]): IndexGroup {
+  let group = root;
+  path.forEach((name) => {
+    let child = group.groups.find((g) => g.name.toLowerCase() === name.toLowerCase());
+    if (child === undefined) {
+      child = { name, notes: [], groups: [] };
+      group.groups.push(child);
+    }
+    group = child;
+  });
+  return group;
+}
+
+function sortGroup(group: IndexGroup, settings: LavaFlowSettings): void {
+  group.groups.sort((a, b) => a.name.localeCompare(b.name));
+  group.notes.sort((a, b) => {
+    if (settings.indexSort === 'sort' && a.sort !== b.sort) {
+      // Notes with a sort order come first, the same as in their journals
+      if (a.sort === null) return 1;
+      if (b.sort === null) return -1;
+      return a.sort - b.sort;
+    }
+    return a.title.localeCompare(b.title);
+  });
+  group.groups.forEach((g) => sortGroup(g, settings));
+}
+
+/**
+ * Files every imported note into a tree of groups, by folder, tag or frontmatter fields as the settings ask. A note
+ * that cannot be filed is passed to onError and left out of the index.
+ */
+export function buildIndexTree(
+  files: MDFileInfo[],
+  settings: LavaFlowSettings,
+  onError: (file: MDFileInfo, error: any) => void,
+): IndexGroup {
+  const root: IndexGroup = { name: '', notes: [], groups: [] };
+  files
+    .filter((file) => file.journalPage !== null)
+    .forEach((file) => {
+      try {
+        getGroupPaths(file, settings).forEach((path) => {
+          const group = getGroup(root, path);
+          if (!group.notes.includes(file)) group.notes.push(file);
+        });
+      } catch (e: any) {
+        onError(file, e);
+      }
+    });
+  sortGroup(root, settings);
+  return root;
+}
+
+/**
+ * The number of notes in a group and all the groups below it, counting a note filed in several of them once.
+ */
+function countNotes(group: IndexGroup, counted = new Set<MDFileInfo>()): number {
+  group.notes.forEach((note) => counted.add(note));
+  group.groups.forEach((g) => countNotes(g, counted));
+  return counted.size;
+}
+
+function getGroupTitle(group: IndexGroup, settings: LavaFlowSettings): string {
+  const name = escapeHtml(group.name);
+  return settings.indexShowCounts ? `${name} <span class="lava-flow-index-count">(${countNotes(group)})</span>` : name;
+}
+
+function renderNotes(notes: MDFileInfo[]): string {
+  return notes.map((note) => `<li>${note.getLink() ?? escapeHtml(note.title)}</li>`).join('\n');
+}
+
+/**
+ * Groups below the headings are nested lists, so any depth of folders fits on the page.
+ */
+function renderList(group: IndexGroup, settings: LavaFlowSettings): string {
+  const subgroups = group.groups.map(
+    (g) => `<li><strong>${getGroupTitle(g, settings)}</strong>\n${renderList(g, settings)}\n</li>`,
+  );
+  return `<ul>\n${[renderNotes(group.notes), ...subgroups].filter((item) => item !== '').join('\n')}\n</ul>`;
+}
+
+/**
+ * A group's notes, followed by each of its groups under a heading.
+ */
+function renderSections(group: IndexGroup, settings: LavaFlowSettings): string {
+  const sections = group.notes.length > 0 ? [`<ul>\n${renderNotes(group.notes)}\n</ul>`] : [];
+  group.groups.forEach((g) => sections.push(`<h1>${getGroupTitle(g, settings)}</h1>\n${renderList(g, settings)}`));
+  return sections.join('\n');
+}
+
+/**
+ * The pages of the index journal: one page with the whole tree, or one page for each top-level group. Notes at the top
+ * of the tree go on a page with the journal's own name.
+ */
+export function renderIndexPages(root: IndexGroup, settings: LavaFlowSettings, journalName: string): IndexPage[] {
+  if (settings.indexLayout === 'tree')
+    return [{ key: journalName, name: journalName, content: renderSections(root, settings) }];
+
+  const pages: IndexPage[] = [];
+  if (root.notes.length > 0)
+    pages.push({
+      key: journalName,
+      name: journalName,
+      content: renderSections({ name: journalName, notes: root.notes, groups: [] }, settings),
+    });
+  root.groups.forEach((group) =>
+    pages.push({ key: `group:${group.name}`, name: group.name, content: renderSections(group, settings) }),
+  );
+  return pages;
+}